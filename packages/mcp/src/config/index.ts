@@ -46,6 +46,10 @@ export class ConfigurationManager {
       rotel: {
         ...this.config.rotel,
         ...config.rotel
+      },
+      prometheus: {
+        ...this.config.prometheus,
+        ...config.prometheus
       }
     };
   }
@@ -88,6 +92,9 @@ export class ConfigurationManager {
     if (process.env.NEONFLARE_CONSOLE_EXPORT) {
       this.config.consoleExport = process.env.NEONFLARE_CONSOLE_EXPORT === 'true';
     }
+    if (process.env.NEONFLARE_SDK_ENABLED) {
+      this.config.sdk = { ...this.config.sdk, enabled: process.env.NEONFLARE_SDK_ENABLED === 'true' };
+    }
 
     // Rotel settings
     if (process.env.NEONFLARE_ROTEL_ENABLED) {
@@ -98,6 +105,28 @@ export class ConfigurationManager {
       this.config.rotel = this.config.rotel || {};
       this.config.rotel.autoInstrument = process.env.NEONFLARE_ROTEL_AUTO_INSTRUMENT === 'true';
     }
+
+    // Prometheus settings
+    if (process.env.NEONFLARE_PROMETHEUS_ENABLED) {
+      this.config.prometheus = this.config.prometheus || {};
+      this.config.prometheus.enabled = process.env.NEONFLARE_PROMETHEUS_ENABLED === 'true';
+    }
+    if (process.env.NEONFLARE_PROMETHEUS_LISTEN) {
+      this.config.prometheus = this.config.prometheus || {};
+      this.config.prometheus.listen = process.env.NEONFLARE_PROMETHEUS_LISTEN === 'true';
+    }
+    if (process.env.NEONFLARE_PROMETHEUS_PORT) {
+      this.config.prometheus = this.config.prometheus || {};
+      this.config.prometheus.port = parseInt(process.env.NEONFLARE_PROMETHEUS_PORT);
+    }
+    if (process.env.NEONFLARE_PROMETHEUS_HOST) {
+      this.config.prometheus = this.config.prometheus || {};
+      this.config.prometheus.host = process.env.NEONFLARE_PROMETHEUS_HOST;
+    }
+    if (process.env.NEONFLARE_PROMETHEUS_PATH) {
+      this.config.prometheus = this.config.prometheus || {};
+      this.config.prometheus.path = process.env.NEONFLARE_PROMETHEUS_PATH;
+    }
   }
 
   /**
@@ -203,6 +232,13 @@ export class ConfigurationManager {
       }
     }
 
+    const prometheusPort = this.config.prometheus?.port;
+    if (prometheusPort !== undefined) {
+      if (!Number.isInteger(prometheusPort) || prometheusPort < 0 || prometheusPort > 65535) {
+        errors.push('Prometheus port must be between 0 and 65535');
+      }
+    }
+
     return {
       valid: errors.length === 0,
       errors
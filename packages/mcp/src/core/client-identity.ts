@@ -0,0 +1,93 @@
+import { Attributes } from '@opentelemetry/api';
+import { ClientIdentifier, MCPClientIdentity, MCPClientInfo } from '../types/index.js';
+
+/**
+ * Known MCP client families, matched against the reported client name in order
+ */
+const KNOWN_CLIENTS: Array<[RegExp, string]> = [
+  [/claude[\s_-]*code/i, 'claude-code'],
+  [/claude/i, 'claude-desktop'],
+  [/cursor/i, 'cursor'],
+  [/roo[\s_-]*(code|cline)/i, 'roo-code'],
+  [/cline/i, 'cline'],
+  [/windsurf|codeium/i, 'windsurf'],
+  [/visual[\s_-]*studio[\s_-]*code|vs[\s_-]*code/i, 'vscode'],
+  [/continue/i, 'continue'],
+  [/^zed/i, 'zed'],
+  [/inspector/i, 'mcp-inspector']
+];
+
+/**
+ * Normalize a reported client name to a known client family
+ *
+ * Unknown clients keep their reported name, lowercased and trimmed.
+ */
+export function normalizeClientName(name: string): string {
+  for (const [pattern, family] of KNOWN_CLIENTS) {
+    if (pattern.test(name)) {
+      return family;
+    }
+  }
+  return name.trim().toLowerCase();
+}
+
+/**
+ * Identify the client of a session from its initialize request
+ */
+export function identifyClient(
+  clientInfo: MCPClientInfo | undefined,
+  capabilities: Record<string, unknown> | undefined,
+  identify?: ClientIdentifier
+): MCPClientIdentity {
+  const name = clientInfo?.name ? normalizeClientName(clientInfo.name) : 'unknown';
+  const identity: MCPClientIdentity = {
+    clientId: name,
+    name,
+    rawName: clientInfo?.name,
+    version: clientInfo?.version,
+    capabilities
+  };
+
+  if (identify) {
+    try {
+      Object.assign(identity, identify(clientInfo, capabilities));
+    } catch (error) {
+      console.warn('[Client Identification] Error in identifyClient callback:', error);
+    }
+  }
+
+  return identity;
+}
+
+/**
+ * Create span attributes for an identified client
+ *
+ * Capabilities are flattened one level deep, e.g.
+ * `mcp.client.capabilities.roots` and `mcp.client.capabilities.roots.listChanged`.
+ */
+export function createClientAttributes(identity: MCPClientIdentity): Attributes {
+  const attributes: Attributes = {
+    'mcp.client_id': identity.clientId,
+    'mcp.client.name': identity.name
+  };
+
+  if (identity.rawName) {
+    attributes['mcp.client.raw_name'] = identity.rawName;
+  }
+  if (identity.version) {
+    attributes['mcp.client.version'] = identity.version;
+  }
+
+  for (const [capability, value] of Object.entries(identity.capabilities || {})) {
+    attributes[`mcp.client.capabilities.${capability}`] = true;
+    if (value && typeof value === 'object') {
+      for (const [key, nested] of Object.entries(value)) {
+        if (typeof nested === 'string' || typeof nested === 'number' || typeof nested === 'boolean') {
+          attributes[`mcp.client.capabilities.${capability}.${key}`] = nested;
+        }
+      }
+    }
+  }
+
+  return attributes;
+}
@@ -0,0 +1,221 @@
+import { inspect } from 'util';
+import {
+  context as otelContext,
+  metrics,
+  trace,
+  Attributes,
+  Counter,
+  Histogram,
+  Meter,
+  SpanContext,
+  UpDownCounter,
+  isSpanContextValid
+} from '@opentelemetry/api';
+import {
+  AggregationType,
+  ConsoleMetricExporter,
+  MeterProvider,
+  MetricReader,
+  PeriodicExportingMetricReader,
+  ResourceMetrics
+} from '@opentelemetry/sdk-metrics';
+import { MCPExemplar, MCPInstrumentationConfig } from '../types/index.js';
+import { createResource } from './sdk.js';
+
+/**
+ * OpenTelemetry metrics for MCP servers
+ *
+ * Instruments are only created when `metricsEnabled` is set. Measurements are
+ * recorded in the context of the request span, and the most recent duration
+ * per histogram bucket is kept as an exemplar pointing at its trace.
+ *
+ * The exemplars are kept here because `@opentelemetry/sdk-metrics` 2.x
+ * neither exports nor attaches exemplars to the data its readers collect;
+ * they only reach the Prometheus endpoint and `getExemplars()`.
+ */
+
+/**
+ * Histogram bucket boundaries for request durations, in seconds
+ */
+export const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+/**
+ * Metric exporter printing to stderr instead of stdout, which on a stdio
+ * transport carries the JSON-RPC stream
+ */
+export class StderrMetricExporter extends ConsoleMetricExporter {
+  export(metrics: ResourceMetrics, resultCallback: Parameters<ConsoleMetricExporter['export']>[1]): void {
+    if (this._shutdown) {
+      // ExportResultCode.FAILED
+      setImmediate(resultCallback, { code: 1 });
+      return;
+    }
+
+    for (const scopeMetrics of metrics.scopeMetrics) {
+      for (const metric of scopeMetrics.metrics) {
+        process.stderr.write(`${inspect({
+          descriptor: metric.descriptor,
+          dataPointType: metric.dataPointType,
+          dataPoints: metric.dataPoints
+        }, { depth: null })}\n`);
+      }
+    }
+    // ExportResultCode.SUCCESS
+    resultCallback({ code: 0 });
+  }
+}
+
+/**
+ * Outcome of a completed server request
+ */
+export interface MCPRequestMeasurement {
+  method: string;
+  toolName?: string;
+  clientName?: string;
+  success: boolean;
+  durationMs: number;
+  spanContext?: SpanContext;
+}
+
+/**
+ * Records request and session metrics with OpenTelemetry instruments
+ */
+export class MCPMetricsRecorder {
+  private meterProvider?: MeterProvider;
+  private meter: Meter;
+  private requestDuration: Histogram;
+  private requests: Counter;
+  private activeRequests: UpDownCounter;
+  private exemplarsEnabled: boolean;
+  private exemplars = new Map<string, Array<MCPExemplar | undefined>>();
+
+  constructor(config: MCPInstrumentationConfig, getActiveSessionCount: () => number) {
+    this.exemplarsEnabled = config.metrics?.exemplars !== false;
+    this.meter = this.createMeter(config);
+
+    this.requestDuration = this.meter.createHistogram('mcp.server.request.duration', {
+      description: 'Duration of MCP requests handled by the server',
+      unit: 's',
+      advice: { explicitBucketBoundaries: DURATION_BUCKETS }
+    });
+    this.requests = this.meter.createCounter('mcp.server.requests', {
+      description: 'Number of MCP requests handled by the server'
+    });
+    this.activeRequests = this.meter.createUpDownCounter('mcp.server.active_requests', {
+      description: 'Number of MCP requests currently being handled'
+    });
+    this.meter.createObservableGauge('mcp.server.sessions', {
+      description: 'Number of active MCP sessions'
+    }).addCallback(result => result.observe(getActiveSessionCount()));
+  }
+
+  /**
+   * Record a request being picked up by a handler
+   */
+  requestStarted(method: string): void {
+    this.activeRequests.add(1, { 'mcp.method': method });
+  }
+
+  /**
+   * Record a completed request
+   */
+  requestEnded(measurement: MCPRequestMeasurement): void {
+    const attributes: Record<string, string> = {
+      'mcp.method': measurement.method,
+      'mcp.status': measurement.success ? 'ok' : 'error',
+      ...(measurement.toolName ? { 'mcp.tool_name': measurement.toolName } : {}),
+      ...(measurement.clientName ? { 'mcp.client.name': measurement.clientName } : {})
+    };
+    const seconds = measurement.durationMs / 1000;
+    const spanContext = measurement.spanContext && isSpanContextValid(measurement.spanContext)
+      ? measurement.spanContext
+      : undefined;
+    const ctx = spanContext ? trace.setSpanContext(otelContext.active(), spanContext) : otelContext.active();
+
+    this.activeRequests.add(-1, { 'mcp.method': measurement.method });
+    this.requests.add(1, attributes as Attributes, ctx);
+    this.requestDuration.record(seconds, attributes as Attributes, ctx);
+
+    if (this.exemplarsEnabled && spanContext) {
+      this.recordExemplar(seconds, attributes, spanContext);
+    }
+  }
+
+  /**
+   * Get the latest exemplar per duration histogram bucket and attribute set
+   */
+  getExemplars(): MCPExemplar[] {
+    return Array.from(this.exemplars.values())
+      .flat()
+      .filter((exemplar): exemplar is MCPExemplar => Boolean(exemplar));
+  }
+
+  /**
+   * Get the meter used for the instruments
+   */
+  getMeter(): Meter {
+    return this.meter;
+  }
+
+  /**
+   * Get the MeterProvider built from `metrics.readers`, if any
+   */
+  getMeterProvider(): MeterProvider | undefined {
+    return this.meterProvider;
+  }
+
+  /**
+   * Flush and stop the readers of a MeterProvider we created
+   */
+  async shutdown(): Promise<void> {
+    if (this.meterProvider) {
+      await this.meterProvider.shutdown();
+      this.meterProvider = undefined;
+    }
+  }
+
+  private createMeter(config: MCPInstrumentationConfig): Meter {
+    if (config.metrics?.meter) {
+      return config.metrics.meter;
+    }
+
+    const readers: MetricReader[] = [...(config.metrics?.readers || [])];
+    if (config.consoleExport) {
+      readers.push(new PeriodicExportingMetricReader({ exporter: new StderrMetricExporter() }));
+    }
+
+    if (readers.length === 0) {
+      return metrics.getMeter('neonflare-mcp', config.serviceVersion);
+    }
+
+    this.meterProvider = new MeterProvider({
+      resource: createResource(config),
+      readers,
+      views: config.metrics?.exponentialHistogram
+        ? [{
+          instrumentName: 'mcp.server.request.duration',
+          aggregation: { type: AggregationType.EXPONENTIAL_HISTOGRAM }
+        }]
+        : []
+    });
+    return this.meterProvider.getMeter('neonflare-mcp', config.serviceVersion);
+  }
+
+  private recordExemplar(value: number, attributes: Record<string, string>, spanContext: SpanContext): void {
+    const seriesKey = JSON.stringify(attributes);
+    let buckets = this.exemplars.get(seriesKey);
+    if (!buckets) {
+      buckets = new Array(DURATION_BUCKETS.length + 1).fill(undefined);
+      this.exemplars.set(seriesKey, buckets);
+    }
+
+    const bucket = DURATION_BUCKETS.findIndex(boundary => value <= boundary);
+    buckets[bucket === -1 ? DURATION_BUCKETS.length : bucket] = {
+      value,
+      traceId: spanContext.traceId,
+      spanId: spanContext.spanId,
+      timestamp: Date.now(),
+      attributes
+    };
+  }
+}
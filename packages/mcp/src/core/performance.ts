@@ -1,5 +1,6 @@
 import { Span } from '@opentelemetry/api';
-import { MCPOperationContext, MCPSpanAttributes } from '../types/index.js';
+import { MCPLatencyPercentiles, MCPLatencySketch, MCPOperationContext, MCPSpanAttributes } from '../types/index.js';
+import { DDSketch } from './sketch.js';
 
 /**
  * Performance monitoring configuration
@@ -51,6 +52,8 @@ export class PerformanceMonitor {
   private config: PerformanceConfig;
   private metricsHistory: Array<{ timestamp: number; metrics: PerformanceMetrics }> = [];
   private maxHistorySize = 1000;
+  private durationSketch = new DDSketch();
+  private operationSketches = new Map<string, DDSketch>();
 
   constructor(config: PerformanceConfig = {}) {
     this.config = {
@@ -97,7 +100,7 @@ export class PerformanceMonitor {
       this.checkThresholds(metrics, operationName);
 
       // Record metrics
-      this.recordMetrics(metrics);
+      this.recordMetrics(metrics, operationName);
 
       // Add performance attributes to span
       if (span) {
@@ -117,7 +120,7 @@ export class PerformanceMonitor {
         cpuUsage: await this.getCpuUsage()
       };
 
-      this.recordMetrics(metrics);
+      this.recordMetrics(metrics, operationName);
       throw error;
     }
   }
@@ -153,7 +156,7 @@ export class PerformanceMonitor {
       this.checkThresholds(metrics, operationName);
 
       // Record metrics
-      this.recordMetrics(metrics);
+      this.recordMetrics(metrics, operationName);
 
       // Add performance attributes to span
       if (span) {
@@ -173,7 +176,7 @@ export class PerformanceMonitor {
         cpuUsage: this.getCpuUsageSync()
       };
 
-      this.recordMetrics(metrics);
+      this.recordMetrics(metrics, operationName);
       throw error;
     }
   }
@@ -262,7 +265,17 @@ export class PerformanceMonitor {
   /**
    * Record performance metrics
    */
-  private recordMetrics(metrics: PerformanceMetrics): void {
+  private recordMetrics(metrics: PerformanceMetrics, operationName?: string): void {
+    this.durationSketch.add(metrics.duration);
+    if (operationName) {
+      let sketch = this.operationSketches.get(operationName);
+      if (!sketch) {
+        sketch = new DDSketch();
+        this.operationSketches.set(operationName, sketch);
+      }
+      sketch.add(metrics.duration);
+    }
+
     this.metricsHistory.push({
       timestamp: Date.now(),
       metrics
@@ -299,6 +312,7 @@ export class PerformanceMonitor {
     minDuration: number;
     totalOperations: number;
     slowOperations: number;
+    percentiles: MCPLatencyPercentiles;
   } {
     const range = timeRange || 60000; // Default to last minute
     const cutoffTime = Date.now() - range;
@@ -313,7 +327,8 @@ export class PerformanceMonitor {
         maxDuration: 0,
         minDuration: 0,
         totalOperations: 0,
-        slowOperations: 0
+        slowOperations: 0,
+        percentiles: new DDSketch().getPercentiles()
       };
     }
 
@@ -325,15 +340,39 @@ export class PerformanceMonitor {
     const threshold = this.config.thresholds?.maxDuration || 5000;
     const slowOperations = recentMetrics.filter(m => m.duration > threshold).length;
 
+    const sketch = new DDSketch();
+    durations.forEach(d => sketch.add(d));
+
     return {
       averageDuration,
       maxDuration,
       minDuration,
       totalOperations: recentMetrics.length,
-      slowOperations
+      slowOperations,
+      percentiles: sketch.getPercentiles()
     };
   }
 
+  /**
+   * Get duration percentiles over every monitored operation, or those named `operationName`
+   *
+   * Unlike `getPerformanceStats`, these are not limited to the retained history.
+   */
+  getLatencyPercentiles(operationName?: string): MCPLatencyPercentiles {
+    return (this.getSketch(operationName) || new DDSketch()).getPercentiles();
+  }
+
+  /**
+   * Get the mergeable duration sketch behind `getLatencyPercentiles`
+   */
+  getLatencySketch(operationName?: string): MCPLatencySketch {
+    return (this.getSketch(operationName) || new DDSketch()).toJSON();
+  }
+
+  private getSketch(operationName?: string): DDSketch | undefined {
+    return operationName ? this.operationSketches.get(operationName) : this.durationSketch;
+  }
+
   /**
    * Get memory usage trend
    */
@@ -354,6 +393,8 @@ export class PerformanceMonitor {
    */
   clearHistory(): void {
     this.metricsHistory.length = 0;
+    this.durationSketch = new DDSketch();
+    this.operationSketches.clear();
   }
 
   /**
@@ -0,0 +1,59 @@
+import { context as otelContext, propagation, Context, TextMapGetter, TextMapSetter } from '@opentelemetry/api';
+
+/**
+ * Trace context propagation through MCP request `_meta`
+ *
+ * MCP has no transport-level headers that survive every transport, so the
+ * W3C `traceparent`, `tracestate` and `baggage` entries travel in
+ * `params._meta`. Extraction and injection go through the globally registered
+ * propagator, which the OpenTelemetry SDK sets to W3C trace context and
+ * baggage by default.
+ */
+
+type MetaCarrier = Record<string, unknown>;
+
+const metaGetter: TextMapGetter<MetaCarrier> = {
+  keys: (carrier) => Object.keys(carrier),
+  get: (carrier, key) => {
+    const value = carrier[key];
+    return typeof value === 'string' ? value : undefined;
+  }
+};
+
+const metaSetter: TextMapSetter<MetaCarrier> = {
+  set: (carrier, key, value) => {
+    carrier[key] = value;
+  }
+};
+
+/**
+ * Extract a parent context from request `_meta`
+ *
+ * Returns the active context unchanged when `_meta` carries no trace context.
+ */
+export function extractTraceContext(meta: unknown, parent: Context = otelContext.active()): Context {
+  if (!meta || typeof meta !== 'object') {
+    return parent;
+  }
+
+  return propagation.extract(parent, meta as MetaCarrier, metaGetter);
+}
+
+/**
+ * Return a copy of request params with the trace context of `ctx` injected into `_meta`
+ */
+export function injectTraceContext(
+  params: Record<string, unknown> | undefined,
+  ctx: Context = otelContext.active()
+): Record<string, unknown> | undefined {
+  const existingMeta = params?._meta;
+  const meta: MetaCarrier = existingMeta && typeof existingMeta === 'object' ? { ...existingMeta } : {};
+
+  propagation.inject(ctx, meta, metaSetter);
+
+  if (Object.keys(meta).length === 0) {
+    return params;
+  }
+
+  return { ...params, _meta: meta };
+}
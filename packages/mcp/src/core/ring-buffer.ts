@@ -0,0 +1,83 @@
+/**
+ * Fixed-capacity buffer that overwrites its oldest item when full
+ *
+ * Pushing is O(1) regardless of capacity, unlike trimming an array with
+ * `slice` or `splice` once it grows past a limit.
+ */
+export class RingBuffer<T> {
+  private items: Array<T | undefined>;
+  private start = 0;
+  private length = 0;
+
+  constructor(readonly capacity: number) {
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      throw new Error('Ring buffer capacity must be a positive integer');
+    }
+    this.items = new Array(capacity);
+  }
+
+  /**
+   * Append an item, returning the item it overwrote, if any
+   */
+  push(item: T): T | undefined {
+    const end = (this.start + this.length) % this.capacity;
+    const evicted = this.length === this.capacity ? this.items[end] : undefined;
+
+    this.items[end] = item;
+    if (this.length === this.capacity) {
+      this.start = (this.start + 1) % this.capacity;
+    } else {
+      this.length++;
+    }
+    return evicted;
+  }
+
+  /**
+   * Number of items held
+   */
+  get size(): number {
+    return this.length;
+  }
+
+  /**
+   * Items from oldest to newest
+   */
+  toArray(): T[] {
+    const result: T[] = new Array(this.length);
+    for (let i = 0; i < this.length; i++) {
+      result[i] = this.items[(this.start + i) % this.capacity] as T;
+    }
+    return result;
+  }
+
+  /**
+   * Remove and return up to `count` of the oldest items
+   */
+  take(count: number): T[] {
+    const taken = Math.min(Math.max(0, count), this.length);
+    const result: T[] = new Array(taken);
+    for (let i = 0; i < taken; i++) {
+      const index = (this.start + i) % this.capacity;
+      result[i] = this.items[index] as T;
+      this.items[index] = undefined;
+    }
+    this.start = (this.start + taken) % this.capacity;
+    this.length -= taken;
+    return result;
+  }
+
+  /**
+   * Remove and return all items, oldest first
+   */
+  drain(): T[] {
+    const result = this.toArray();
+    this.clear();
+    return result;
+  }
+
+  clear(): void {
+    this.items = new Array(this.capacity);
+    this.start = 0;
+    this.length = 0;
+  }
+}
@@ -0,0 +1,323 @@
+import { readFileSync } from 'fs';
+import { connect } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MCPInstrumentationConfig, RotelConfig } from '../types/index.js';
+
+/**
+ * Rotel agent lifecycle
+ *
+ * Rotel runs as a local OpenTelemetry collector next to the MCP server. The
+ * tracer exports to its OTLP receiver, and Rotel batches and forwards to the
+ * upstream exporter configured here. The package ships a native binary per
+ * platform, so it is loaded on demand and a missing or broken install only
+ * disables Rotel instead of failing the server.
+ *
+ * The agent runs as a separate process that the package gives no exit
+ * notification for, so the manager probes the receiver port instead and
+ * restarts the agent once it stops accepting connections.
+ *
+ * The agent is stopped gracefully on `beforeExit`, SIGINT and SIGTERM. An
+ * `exit` listener cannot wait for that, so on `exit` the agent process is
+ * killed synchronously through the PID it writes to its pid file.
+ */
+
+const ROTEL_MODULE = '@streamfold/rotel';
+
+const DEFAULT_RECEIVER_ENDPOINT = 'localhost:4317';
+
+const DEFAULT_MAX_START_ATTEMPTS = 3;
+
+const START_RETRY_DELAY = 500;
+
+const DEFAULT_HEALTH_CHECK_INTERVAL = 5000;
+
+const HEALTH_CHECK_TIMEOUT = 1000;
+
+const STOP_SIGNALS = ['SIGINT', 'SIGTERM'] as const;
+
+/**
+ * Constructor options of `@streamfold/rotel` set here
+ *
+ * Key names follow the package's options, documented at
+ * https://github.com/streamfold/rotel-nodejs; anything else can be passed
+ * through `rotel.config`.
+ */
+export interface RotelAgentOptions {
+  enabled: boolean;
+  /** Address of the agent's OTLP gRPC receiver */
+  otlp_grpc_endpoint: string;
+  /** Where the agent writes its process ID */
+  pid_file: string;
+  exporter?: {
+    endpoint: string;
+    protocol: 'grpc' | 'http';
+    headers?: Record<string, string>;
+  };
+  [option: string]: unknown;
+}
+
+/**
+ * The subset of the `@streamfold/rotel` API used here
+ */
+export interface RotelAgent {
+  start(): unknown;
+  stop(): unknown;
+}
+
+export interface RotelModule {
+  Rotel: new (options: RotelAgentOptions) => RotelAgent;
+}
+
+export type RotelModuleLoader = () => Promise<RotelModule>;
+
+/**
+ * Starts, restarts on failure and stops a local Rotel agent
+ */
+export class RotelManager {
+  private agent?: RotelAgent;
+  private starting?: Promise<boolean>;
+  private stopped = false;
+  private monitor?: ReturnType<typeof setInterval>;
+  private checking = false;
+  private exitHandler = () => this.killAgent();
+  private beforeExitHandler = () => void this.stop();
+  private signalHandler = (signal: typeof STOP_SIGNALS[number]) => {
+    void this.stop().finally(() => {
+      // Without other listeners, the signal would have ended the process
+      if (process.listenerCount(signal) === 0) {
+        process.kill(process.pid, signal);
+      }
+    });
+  };
+
+  constructor(
+    private config: MCPInstrumentationConfig,
+    private loadModule: RotelModuleLoader = () => import(/* @vite-ignore */ ROTEL_MODULE)
+  ) {}
+
+  /**
+   * Whether Rotel is enabled in the config
+   */
+  static isEnabled(config: MCPInstrumentationConfig): boolean {
+    return Boolean(config.rotel?.enabled);
+  }
+
+  /**
+   * Rewrite a config so the tracer exports to the local Rotel receiver
+   *
+   * The original `otlpEndpoint` and `otlpHeaders` become Rotel's upstream
+   * exporter defaults, so they are kept on `rotel.exporter`.
+   */
+  static applyReceiver(config: MCPInstrumentationConfig): MCPInstrumentationConfig {
+    const rotel: RotelConfig = config.rotel || {};
+    return {
+      ...config,
+      otlpEndpoint: `http://${rotel.receiverEndpoint || DEFAULT_RECEIVER_ENDPOINT}`,
+      otlpHeaders: undefined,
+      sdk: { enabled: true, ...config.sdk },
+      rotel: {
+        ...rotel,
+        exporter: {
+          ...(config.otlpEndpoint ? { endpoint: config.otlpEndpoint } : {}),
+          ...(config.otlpHeaders ? { headers: config.otlpHeaders } : {}),
+          ...rotel.exporter
+        }
+      }
+    };
+  }
+
+  /**
+   * Options passed to the Rotel constructor
+   */
+  getAgentOptions(): RotelAgentOptions {
+    const rotel: RotelConfig = this.config.rotel || {};
+    const exporter = rotel.exporter || {};
+
+    return {
+      enabled: true,
+      otlp_grpc_endpoint: rotel.receiverEndpoint || DEFAULT_RECEIVER_ENDPOINT,
+      pid_file: join(tmpdir(), `neonflare-rotel-${process.pid}.pid`),
+      ...(exporter.endpoint
+        ? {
+          exporter: {
+            endpoint: exporter.endpoint,
+            protocol: exporter.protocol || 'grpc',
+            ...(exporter.headers ? { headers: exporter.headers } : {})
+          }
+        }
+        : {}),
+      ...rotel.config
+    };
+  }
+
+  /**
+   * Start the agent, retrying with backoff; resolves false if it never started
+   *
+   * Once started, the agent is restarted the same way whenever it exits.
+   */
+  start(): Promise<boolean> {
+    if (!this.starting) {
+      this.starting = this.startWithRetries().then(started => {
+        if (started) this.watch();
+        return started;
+      });
+    }
+    return this.starting;
+  }
+
+  /**
+   * Whether the agent is running
+   */
+  isRunning(): boolean {
+    return Boolean(this.agent);
+  }
+
+  /**
+   * Stop the agent; waits for a pending start so the agent is not left behind
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    this.unwatch();
+    await this.starting;
+    await this.stopAgent();
+  }
+
+  private watch(): void {
+    const interval = this.config.rotel?.healthCheckInterval ?? DEFAULT_HEALTH_CHECK_INTERVAL;
+    if (interval <= 0 || this.monitor || this.stopped) return;
+
+    this.monitor = setInterval(() => void this.check(), interval);
+    // Never keep the process alive just to supervise the agent
+    this.monitor.unref?.();
+  }
+
+  private unwatch(): void {
+    clearInterval(this.monitor);
+    this.monitor = undefined;
+  }
+
+  /**
+   * Restart the agent if its receiver no longer accepts connections
+   */
+  private async check(): Promise<void> {
+    if (this.checking || this.stopped || !this.agent) return;
+
+    this.checking = true;
+    try {
+      if (await this.isReceiverUp()) return;
+
+      console.warn('[Rotel] Agent is no longer accepting connections, restarting');
+      await this.stopAgent();
+      this.starting = this.startWithRetries();
+      if (!(await this.starting)) {
+        console.warn('[Rotel] Giving up restarting agent, spans will not be collected locally');
+        this.unwatch();
+      }
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  private isReceiverUp(): Promise<boolean> {
+    const endpoint = this.config.rotel?.receiverEndpoint || DEFAULT_RECEIVER_ENDPOINT;
+    const separator = endpoint.lastIndexOf(':');
+    const host = endpoint.slice(0, separator).replace(/^\[|\]$/g, '');
+    const port = Number(endpoint.slice(separator + 1));
+
+    return new Promise(resolve => {
+      const socket = connect({ host, port });
+      socket.setTimeout(HEALTH_CHECK_TIMEOUT);
+      socket.once('connect', () => {
+        socket.destroy();
+        resolve(true);
+      });
+      // A busy agent may be slow to accept; only a refused connection means it exited
+      socket.once('timeout', () => {
+        socket.destroy();
+        resolve(true);
+      });
+      socket.once('error', () => resolve(false));
+    });
+  }
+
+  private async startWithRetries(): Promise<boolean> {
+    let RotelClass: RotelModule['Rotel'];
+    try {
+      RotelClass = (await this.loadModule()).Rotel;
+    } catch (error) {
+      console.warn('[Rotel] @streamfold/rotel could not be loaded, spans will not be collected locally:', error);
+      return false;
+    }
+
+    const maxAttempts = this.config.rotel?.maxStartAttempts ?? DEFAULT_MAX_START_ATTEMPTS;
+    for (let attempt = 1; attempt <= maxAttempts && !this.stopped; attempt++) {
+      try {
+        const agent = new RotelClass(this.getAgentOptions());
+        if ((await agent.start()) === false) {
+          throw new Error('agent did not start');
+        }
+
+        this.agent = agent;
+        this.addProcessListeners();
+        return true;
+      } catch (error) {
+        console.warn(`[Rotel] Failed to start agent (attempt ${attempt}/${maxAttempts}):`, error);
+        if (attempt < maxAttempts) {
+          await new Promise(resolve => setTimeout(resolve, START_RETRY_DELAY * 2 ** (attempt - 1)));
+        }
+      }
+    }
+
+    return false;
+  }
+
+  private async stopAgent(): Promise<void> {
+    const agent = this.agent;
+    if (!agent) return;
+
+    this.agent = undefined;
+    this.removeProcessListeners();
+    try {
+      await agent.stop();
+    } catch (error) {
+      console.warn('[Rotel] Failed to stop agent:', error);
+    }
+  }
+
+  /**
+   * Kill the agent process without waiting, for use while the process exits
+   */
+  private killAgent(): void {
+    if (!this.agent) return;
+
+    this.agent = undefined;
+    this.unwatch();
+    this.removeProcessListeners();
+    const pidFile = this.getAgentOptions().pid_file;
+    try {
+      const pid = Number(readFileSync(pidFile, 'utf-8').trim());
+      if (Number.isInteger(pid) && pid > 0) {
+        process.kill(pid, 'SIGTERM');
+      }
+    } catch {
+      // Nothing to kill: the agent never wrote its pid file or already exited
+    }
+  }
+
+  private addProcessListeners(): void {
+    process.once('exit', this.exitHandler);
+    process.once('beforeExit', this.beforeExitHandler);
+    for (const signal of STOP_SIGNALS) {
+      process.once(signal, this.signalHandler);
+    }
+  }
+
+  private removeProcessListeners(): void {
+    process.removeListener('exit', this.exitHandler);
+    process.removeListener('beforeExit', this.beforeExitHandler);
+    for (const signal of STOP_SIGNALS) {
+      process.removeListener(signal, this.signalHandler);
+    }
+  }
+}
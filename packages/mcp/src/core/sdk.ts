@@ -0,0 +1,154 @@
+import { inspect } from 'util';
+import { Metadata } from '@grpc/grpc-js';
+import { trace, ProxyTracerProvider } from '@opentelemetry/api';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-grpc';
+import { defaultResource, resourceFromAttributes, Resource } from '@opentelemetry/resources';
+import {
+  NodeTracerProvider,
+  BatchSpanProcessor,
+  SimpleSpanProcessor,
+  ParentBasedSampler,
+  TraceIdRatioBasedSampler,
+  ReadableSpan,
+  Sampler,
+  SpanExporter,
+  SpanProcessor
+} from '@opentelemetry/sdk-trace-node';
+import { ATTR_SERVICE_NAME, ATTR_SERVICE_VERSION } from '@opentelemetry/semantic-conventions';
+import { MCPInstrumentationConfig } from '../types/index.js';
+
+/**
+ * OpenTelemetry SDK bootstrap
+ *
+ * Builds a NodeTracerProvider from the instrumentation config so spans are
+ * exported without the host application setting up the SDK itself.
+ */
+
+// What the global ProxyTracerProvider delegates to until a provider is registered
+const NOOP_TRACER_PROVIDER = new ProxyTracerProvider().getDelegate();
+
+/**
+ * Whether the config asks for a tracer provider to be built
+ */
+export function isSdkEnabled(config: MCPInstrumentationConfig): boolean {
+  return Boolean(config.sdk?.enabled) && config.tracingEnabled !== false && !config.tracer;
+}
+
+/**
+ * Create (and by default register) a tracer provider from the config
+ *
+ * OpenTelemetry keeps the first global registration and ignores later ones,
+ * so only the first provider is registered; the tracker of any later one
+ * still exports its spans through it, but other code's spans do not.
+ */
+export function createTracerProvider(config: MCPInstrumentationConfig): NodeTracerProvider {
+  const provider = new NodeTracerProvider({
+    resource: createResource(config),
+    sampler: createSampler(config.samplingRate),
+    spanLimits: {
+      attributeCountLimit: config.maxAttributes,
+      eventCountLimit: config.maxEvents
+    },
+    spanProcessors: createSpanProcessors(config)
+  });
+
+  // Without registration there is no context manager, so nested spans only
+  // parent correctly if the host application registered one
+  if (config.sdk?.registerGlobal !== false) {
+    if (hasGlobalTracerProvider()) {
+      console.warn('[SDK] A global tracer provider is already registered; not registering another');
+    } else {
+      provider.register();
+    }
+  }
+
+  return provider;
+}
+
+/**
+ * Whether a tracer provider has been registered with the OpenTelemetry API
+ */
+export function hasGlobalTracerProvider(): boolean {
+  const provider = trace.getTracerProvider();
+  return !(provider instanceof ProxyTracerProvider) || provider.getDelegate() !== NOOP_TRACER_PROVIDER;
+}
+
+/**
+ * Span exporter printing finished spans to stderr
+ *
+ * Unlike the SDK's ConsoleSpanExporter it never writes to stdout, which on a
+ * stdio transport carries the JSON-RPC stream.
+ */
+export class StderrSpanExporter implements SpanExporter {
+  export(spans: ReadableSpan[], resultCallback: Parameters<SpanExporter['export']>[1]): void {
+    for (const span of spans) {
+      process.stderr.write(`${inspect({
+        traceId: span.spanContext().traceId,
+        parentSpanId: span.parentSpanContext?.spanId,
+        id: span.spanContext().spanId,
+        name: span.name,
+        kind: span.kind,
+        timestamp: span.startTime[0] * 1e6 + span.startTime[1] / 1e3,
+        duration: span.duration[0] * 1e6 + span.duration[1] / 1e3,
+        attributes: span.attributes,
+        status: span.status,
+        events: span.events,
+        links: span.links
+      }, { depth: 3 })}\n`);
+    }
+    // ExportResultCode.SUCCESS
+    resultCallback({ code: 0 });
+  }
+
+  shutdown(): Promise<void> {
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Resource describing this service
+ */
+export function createResource(config: MCPInstrumentationConfig): Resource {
+  return defaultResource().merge(resourceFromAttributes({
+    ...config.defaultAttributes,
+    ...(config.serviceName ? { [ATTR_SERVICE_NAME]: config.serviceName } : {}),
+    ...(config.serviceVersion ? { [ATTR_SERVICE_VERSION]: config.serviceVersion } : {}),
+    ...(config.projectId ? { 'neonflare.project_id': config.projectId } : {})
+  }));
+}
+
+/**
+ * Ratio sampler for root spans that follows the caller's decision for propagated traces
+ */
+export function createSampler(samplingRate = 1.0): Sampler {
+  const ratio = Number.isFinite(samplingRate) ? Math.min(Math.max(samplingRate, 0), 1) : 1;
+  return new ParentBasedSampler({ root: new TraceIdRatioBasedSampler(ratio) });
+}
+
+function createSpanProcessors(config: MCPInstrumentationConfig): SpanProcessor[] {
+  const processors: SpanProcessor[] = [];
+
+  if (config.otlpEndpoint) {
+    processors.push(new BatchSpanProcessor(new OTLPTraceExporter({
+      url: config.otlpEndpoint,
+      metadata: createMetadata(config.otlpHeaders)
+    })));
+  }
+
+  if (config.consoleExport) {
+    processors.push(new SimpleSpanProcessor(new StderrSpanExporter()));
+  }
+
+  return [...processors, ...(config.sdk?.spanProcessors || [])];
+}
+
+/**
+ * gRPC exporters take headers as metadata
+ */
+function createMetadata(headers: Record<string, string> = {}): Metadata {
+  const metadata = new Metadata();
+  for (const [key, value] of Object.entries(headers)) {
+    metadata.set(key, value);
+  }
+  return metadata;
+}
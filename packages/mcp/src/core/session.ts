@@ -0,0 +1,277 @@
+import { Span, SpanKind, SpanStatusCode, Tracer, Attributes, Link } from '@opentelemetry/api';
+import {
+  MCPInstrumentationConfig,
+  MCPSessionInfo,
+  SessionEndReason,
+  TelemetryEvent,
+  TelemetryEventType
+} from '../types/index.js';
+import { createClientAttributes, identifyClient } from './client-identity.js';
+
+const DEFAULT_IDLE_TIMEOUT = 30 * 60 * 1000;
+
+/**
+ * Details captured from the initialize request that starts a session
+ */
+export interface SessionStartDetails {
+  sessionId?: string;
+  clientInfo?: MCPSessionInfo['clientInfo'];
+  protocolVersion?: string;
+  capabilities?: Record<string, unknown>;
+}
+
+interface SessionState {
+  info: MCPSessionInfo;
+  span: Span;
+  idleTimer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Tracks MCP sessions and their long-lived session spans
+ *
+ * A session starts on initialize and ends when the transport closes, when it
+ * has been idle for `idleTimeout`, or on shutdown. Each session has a root
+ * `mcp.session` span that request spans link to; the span ends with the
+ * session's request count, error count and duration.
+ */
+export class MCPSessionManager {
+  private sessions = new Map<string, SessionState>();
+  private idleTimeout: number;
+
+  constructor(
+    private getTracer: () => Tracer,
+    private config: MCPInstrumentationConfig,
+    private emit: (event: TelemetryEvent) => void
+  ) {
+    this.idleTimeout = config.session?.idleTimeout ?? DEFAULT_IDLE_TIMEOUT;
+  }
+
+  /**
+   * Whether session tracking is enabled
+   */
+  isEnabled(): boolean {
+    return this.config.session?.enabled !== false;
+  }
+
+  /**
+   * Start a session, ending any previous session with the same ID
+   */
+  startSession(details: SessionStartDetails = {}): MCPSessionInfo {
+    const sessionId = details.sessionId ?? this.generateSessionId();
+    if (this.sessions.has(sessionId)) {
+      this.endSession(sessionId, 'replaced');
+    }
+
+    const now = Date.now();
+    const info: MCPSessionInfo = {
+      sessionId,
+      clientInfo: details.clientInfo,
+      client: identifyClient(details.clientInfo, details.capabilities, this.config.identifyClient),
+      protocolVersion: details.protocolVersion,
+      capabilities: details.capabilities,
+      startTime: now,
+      lastActivity: now,
+      requestCount: 0,
+      errorCount: 0
+    };
+
+    const span = this.getTracer().startSpan('mcp.session', {
+      kind: SpanKind.SERVER,
+      root: true,
+      attributes: {
+        'mcp.session_id': sessionId,
+        ...(this.config.projectId ? { 'neonflare.project_id': this.config.projectId } : {}),
+        ...this.config.defaultAttributes,
+        ...this.createSessionAttributes(info)
+      }
+    });
+
+    const state: SessionState = { info, span };
+    this.sessions.set(sessionId, state);
+    this.resetIdleTimer(state);
+
+    this.emit({
+      type: TelemetryEventType.SESSION_START,
+      timestamp: now,
+      data: {
+        sessionId,
+        clientInfo: info.clientInfo,
+        clientId: info.client?.clientId,
+        protocolVersion: info.protocolVersion,
+        capabilities: info.capabilities,
+        projectId: this.config.projectId
+      },
+      spanContext: {
+        traceId: span.spanContext().traceId,
+        spanId: span.spanContext().spanId
+      }
+    });
+
+    return { ...info };
+  }
+
+  /**
+   * Update session details learned after the session started (e.g. the negotiated protocol version)
+   */
+  updateSession(sessionId: string, details: Omit<SessionStartDetails, 'sessionId'>): void {
+    const state = this.sessions.get(sessionId);
+    if (!state) return;
+
+    Object.assign(state.info, Object.fromEntries(
+      Object.entries(details).filter(([, value]) => value !== undefined)
+    ));
+    if (details.clientInfo || details.capabilities) {
+      state.info.client = identifyClient(state.info.clientInfo, state.info.capabilities, this.config.identifyClient);
+    }
+    state.span.setAttributes(this.createSessionAttributes(state.info));
+  }
+
+  /**
+   * Mark activity on a session, postponing its idle timeout
+   */
+  touchSession(sessionId: string): void {
+    const state = this.sessions.get(sessionId);
+    if (!state) return;
+
+    state.info.lastActivity = Date.now();
+    this.resetIdleTimer(state);
+  }
+
+  /**
+   * Record a completed request against its session
+   */
+  recordRequest(sessionId: string, success: boolean): void {
+    const state = this.sessions.get(sessionId);
+    if (!state) return;
+
+    state.info.requestCount++;
+    if (!success) {
+      state.info.errorCount++;
+    }
+  }
+
+  /**
+   * End a session and its span
+   */
+  endSession(sessionId: string, reason: SessionEndReason): void {
+    const state = this.sessions.get(sessionId);
+    if (!state) return;
+
+    this.sessions.delete(sessionId);
+    if (state.idleTimer) {
+      clearTimeout(state.idleTimer);
+    }
+
+    const now = Date.now();
+    const duration = now - state.info.startTime;
+
+    state.span.setAttributes({
+      'mcp.session.request_count': state.info.requestCount,
+      'mcp.session.error_count': state.info.errorCount,
+      'mcp.session.duration_ms': duration,
+      'mcp.session.end_reason': reason
+    });
+    state.span.setStatus({ code: SpanStatusCode.OK });
+    state.span.end();
+
+    this.emit({
+      type: TelemetryEventType.SESSION_END,
+      timestamp: now,
+      data: {
+        sessionId,
+        reason,
+        duration,
+        requestCount: state.info.requestCount,
+        errorCount: state.info.errorCount,
+        projectId: this.config.projectId
+      },
+      spanContext: {
+        traceId: state.span.spanContext().traceId,
+        spanId: state.span.spanContext().spanId
+      }
+    });
+  }
+
+  /**
+   * Record an event, such as a list_changed notification, on the session span
+   */
+  addSessionEvent(sessionId: string, name: string, attributes?: Attributes): boolean {
+    const state = this.sessions.get(sessionId);
+    if (!state) return false;
+
+    state.span.addEvent(name, attributes);
+    return true;
+  }
+
+  /**
+   * Get a link to the session span, for request spans in the session
+   */
+  getSessionLink(sessionId: string): Link | undefined {
+    const state = this.sessions.get(sessionId);
+    return state ? { context: state.span.spanContext(), attributes: { 'mcp.session_id': sessionId } } : undefined;
+  }
+
+  /**
+   * Get the client attributes attached to every span in a session
+   */
+  getClientAttributes(sessionId: string): Attributes {
+    const client = this.sessions.get(sessionId)?.info.client;
+    return client ? createClientAttributes(client) : {};
+  }
+
+  /**
+   * Get a snapshot of an active session
+   */
+  getSession(sessionId: string): MCPSessionInfo | undefined {
+    const state = this.sessions.get(sessionId);
+    return state ? { ...state.info } : undefined;
+  }
+
+  /**
+   * Get snapshots of all active sessions
+   */
+  getActiveSessions(): MCPSessionInfo[] {
+    return Array.from(this.sessions.values(), state => ({ ...state.info }));
+  }
+
+  /**
+   * Get the number of active sessions
+   */
+  getActiveSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * End all active sessions
+   */
+  shutdown(): void {
+    for (const sessionId of Array.from(this.sessions.keys())) {
+      this.endSession(sessionId, 'shutdown');
+    }
+  }
+
+  private createSessionAttributes(info: MCPSessionInfo): Attributes {
+    return {
+      ...(info.client ? createClientAttributes(info.client) : {}),
+      ...(info.protocolVersion ? { 'mcp.protocol_version': info.protocolVersion } : {})
+    };
+  }
+
+  private resetIdleTimer(state: SessionState): void {
+    if (state.idleTimer) {
+      clearTimeout(state.idleTimer);
+    }
+    if (this.idleTimeout <= 0) return;
+
+    state.idleTimer = setTimeout(
+      () => this.endSession(state.info.sessionId, 'idle_timeout'),
+      this.idleTimeout
+    );
+    // Never keep the process alive just to expire a session
+    state.idleTimer.unref?.();
+  }
+
+  private generateSessionId(): string {
+    return `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
@@ -0,0 +1,182 @@
+import { MCPLatencyPercentiles, MCPLatencySketch } from '../types/index.js';
+
+/**
+ * Streaming latency quantiles
+ *
+ * A DDSketch maps each value to a logarithmic bucket so that every quantile
+ * is within `relativeAccuracy` of the true value, using memory proportional
+ * to the log of the value range rather than the number of values. Sketches
+ * with the same accuracy merge losslessly, so per-provider sketches combine
+ * into the sketch of all their values.
+ */
+
+export const DEFAULT_RELATIVE_ACCURACY = 0.01;
+
+/**
+ * Quantiles reported as `MCPLatencyPercentiles`
+ */
+export const LATENCY_QUANTILES: Record<keyof MCPLatencyPercentiles, number> = {
+  p50: 0.5,
+  p90: 0.9,
+  p95: 0.95,
+  p99: 0.99,
+  p999: 0.999
+};
+
+// Values at or below this are counted as zero
+const MIN_INDEXABLE_VALUE = 1e-9;
+
+// Lowest buckets are collapsed beyond this, trading accuracy of the smallest values for bounded memory
+const MAX_BINS = 2048;
+
+/**
+ * Mergeable sketch of non-negative values with relative-error quantiles
+ */
+export class DDSketch {
+  private gamma: number;
+  private logGamma: number;
+  private bins = new Map<number, number>();
+  private zeroCount = 0;
+  private count = 0;
+  private sum = 0;
+  private min = Infinity;
+  private max = -Infinity;
+
+  constructor(readonly relativeAccuracy: number = DEFAULT_RELATIVE_ACCURACY) {
+    if (!(relativeAccuracy > 0 && relativeAccuracy < 1)) {
+      throw new Error('Relative accuracy must be between 0 and 1');
+    }
+    this.gamma = (1 + relativeAccuracy) / (1 - relativeAccuracy);
+    this.logGamma = Math.log(this.gamma);
+  }
+
+  /**
+   * Rebuild a sketch from its serialized form
+   */
+  static fromJSON(data: MCPLatencySketch): DDSketch {
+    const sketch = new DDSketch(data.relativeAccuracy);
+    sketch.zeroCount = data.zeroCount;
+    sketch.count = data.count;
+    sketch.sum = data.sum;
+    sketch.min = data.count > 0 ? data.min : Infinity;
+    sketch.max = data.count > 0 ? data.max : -Infinity;
+    for (const [index, count] of Object.entries(data.bins)) {
+      sketch.bins.set(Number(index), count);
+    }
+    return sketch;
+  }
+
+  /**
+   * Add a value; negative values are counted as zero
+   */
+  add(value: number): void {
+    if (!Number.isFinite(value)) return;
+    const v = Math.max(0, value);
+
+    if (v <= MIN_INDEXABLE_VALUE) {
+      this.zeroCount++;
+    } else {
+      const index = Math.ceil(Math.log(v) / this.logGamma);
+      this.bins.set(index, (this.bins.get(index) || 0) + 1);
+      if (this.bins.size > MAX_BINS) {
+        this.collapseLowestBins();
+      }
+    }
+
+    this.count++;
+    this.sum += v;
+    this.min = Math.min(this.min, v);
+    this.max = Math.max(this.max, v);
+  }
+
+  /**
+   * Add all values of another sketch with the same relative accuracy
+   */
+  merge(other: DDSketch): void {
+    if (other.relativeAccuracy !== this.relativeAccuracy) {
+      throw new Error('Cannot merge sketches with different relative accuracy');
+    }
+    if (other.count === 0) return;
+
+    for (const [index, count] of other.bins) {
+      this.bins.set(index, (this.bins.get(index) || 0) + count);
+    }
+    if (this.bins.size > MAX_BINS) {
+      this.collapseLowestBins();
+    }
+
+    this.zeroCount += other.zeroCount;
+    this.count += other.count;
+    this.sum += other.sum;
+    this.min = Math.min(this.min, other.min);
+    this.max = Math.max(this.max, other.max);
+  }
+
+  /**
+   * Value at quantile `q` (0 to 1), or 0 for an empty sketch
+   */
+  getValueAtQuantile(q: number): number {
+    if (this.count === 0) return 0;
+
+    const rank = Math.max(0, Math.min(1, q)) * (this.count - 1);
+    let seen = this.zeroCount;
+    if (seen > rank) return 0;
+
+    for (const index of Array.from(this.bins.keys()).sort((a, b) => a - b)) {
+      seen += this.bins.get(index)!;
+      if (seen > rank) {
+        const value = (2 * Math.pow(this.gamma, index)) / (this.gamma + 1);
+        return Math.min(this.max, Math.max(this.min, value));
+      }
+    }
+
+    return this.max;
+  }
+
+  /**
+   * p50 to p999
+   */
+  getPercentiles(): MCPLatencyPercentiles {
+    const percentiles = {} as MCPLatencyPercentiles;
+    for (const [key, q] of Object.entries(LATENCY_QUANTILES) as Array<[keyof MCPLatencyPercentiles, number]>) {
+      percentiles[key] = this.getValueAtQuantile(q);
+    }
+    return percentiles;
+  }
+
+  getCount(): number {
+    return this.count;
+  }
+
+  getSum(): number {
+    return this.sum;
+  }
+
+  /**
+   * Serialize for `MCPMetrics`
+   */
+  toJSON(): MCPLatencySketch {
+    return {
+      relativeAccuracy: this.relativeAccuracy,
+      count: this.count,
+      sum: this.sum,
+      min: this.count > 0 ? this.min : 0,
+      max: this.count > 0 ? this.max : 0,
+      zeroCount: this.zeroCount,
+      bins: Object.fromEntries(this.bins)
+    };
+  }
+
+  private collapseLowestBins(): void {
+    const indexes = Array.from(this.bins.keys()).sort((a, b) => a - b);
+    const excess = indexes.slice(0, indexes.length - MAX_BINS);
+    const target = indexes[excess.length];
+
+    let collapsed = 0;
+    for (const index of excess) {
+      collapsed += this.bins.get(index)!;
+      this.bins.delete(index);
+    }
+    this.bins.set(target, (this.bins.get(target) || 0) + collapsed);
+  }
+}
@@ -1,24 +1,48 @@
-import { trace, Tracer, Span, SpanStatusCode, Attributes } from '@opentelemetry/api';
+import { context as otelContext, trace, Tracer, Span, SpanKind, SpanStatusCode, Attributes, Context } from '@opentelemetry/api';
+import type { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+import type { IncomingMessage, Server as HttpServer, ServerResponse } from 'http';
 import {
   MCPInstrumentationConfig,
+  MCPMetrics,
   MCPOperationContext,
   MCPMethodCall,
   MCPMethodResult,
   MCPSpanAttributes,
+  MCPOperationRecord,
   TelemetryEvent,
   TelemetryEventType,
   InstrumentationHook
 } from '../types/index.js';
+import { MCPSessionManager } from './session.js';
+import { MCPTransportStats } from './transport-stats.js';
+import { createTracerProvider, isSdkEnabled } from './sdk.js';
+import { RotelManager } from './rotel.js';
+import { MCPMetricsRecorder } from './metrics.js';
+import { getErrorHandler } from './errors.js';
+import { PrometheusCollector, createPrometheusHandler, startPrometheusServer } from '../telemetry/prometheus.js';
+import { getToolResultError } from '../utils/index.js';
+import { MCPMetricsAggregator } from '../telemetry/aggregation.js';
+import { RingBuffer } from './ring-buffer.js';
 
 /**
  * Core MCP server tracker that manages OpenTelemetry instrumentation
  */
 export class MCPTracker {
   private tracer!: Tracer;
+  private tracerProvider?: NodeTracerProvider;
+  private rotel?: RotelManager;
+  private metrics?: MCPMetricsRecorder;
+  private prometheus?: PrometheusCollector;
+  private prometheusServer?: HttpServer;
   private config: MCPInstrumentationConfig;
   private hooks: InstrumentationHook[] = [];
-  private telemetryEvents: TelemetryEvent[] = [];
+  // Only recent events are kept; metrics are aggregated as events are added
+  private telemetryEvents = new RingBuffer<TelemetryEvent>(1000);
+  private aggregator = new MCPMetricsAggregator();
   private activeSpans = new Map<string, Span>();
+  private operations = new Map<string, MCPOperationRecord>();
+  private sessions: MCPSessionManager;
+  private transportStats = new MCPTransportStats();
   private startTime = Date.now();
 
   constructor(config: MCPInstrumentationConfig = {}) {
@@ -35,39 +59,181 @@ export class MCPTracker {
       ...config
     };
 
+    // Export to a local Rotel agent, which forwards to the configured endpoint
+    if (RotelManager.isEnabled(this.config)) {
+      this.config = RotelManager.applyReceiver(this.config);
+      this.rotel = new RotelManager(this.config);
+      void this.rotel.start();
+    }
+
     this.initializeTracer();
+    this.sessions = new MCPSessionManager(() => this.tracer, this.config, event => this.addTelemetryEvent(event));
+
+    if (this.config.metricsEnabled) {
+      this.metrics = new MCPMetricsRecorder(this.config, () => this.sessions.getActiveSessionCount());
+    }
+
+    if (this.config.prometheus?.enabled) {
+      this.prometheus = new PrometheusCollector();
+      if (this.config.prometheus.listen !== false) {
+        this.prometheusServer = startPrometheusServer(() => this.renderPrometheusMetrics(), this.config.prometheus);
+      }
+    }
   }
 
   /**
    * Initialize the OpenTelemetry tracer
+   *
+   * A tracer passed in the config wins; with `sdk.enabled` a tracer provider
+   * is built from the config; otherwise the global provider is used.
    */
   private initializeTracer(): void {
-    // For now, we'll use a simple console-based setup
-    // In a production environment, you'd configure proper exporters
+    if (this.config.tracer) {
+      this.tracer = this.config.tracer;
+      return;
+    }
+
+    if (isSdkEnabled(this.config)) {
+      this.tracerProvider = createTracerProvider(this.config);
+      this.tracer = this.tracerProvider.getTracer('neonflare-mcp', this.config.serviceVersion);
+      return;
+    }
+
     this.tracer = trace.getTracer('neonflare-mcp', this.config.serviceVersion);
   }
 
   /**
    * Create a new operation context for tracking
+   *
+   * `parentContext` is typically extracted from the request's `_meta`; the
+   * operation's span becomes a child of the span it carries.
    */
-  createOperationContext(method: string, requestId?: string, params?: unknown): MCPOperationContext {
-    return {
+  createOperationContext(
+    method: string,
+    requestId?: string,
+    params?: unknown,
+    parentContext?: Context
+  ): MCPOperationContext {
+    const context: MCPOperationContext = {
       operationId: this.generateOperationId(),
       startTime: Date.now(),
       metadata: {
         method,
         requestId,
         params
-      }
+      },
+      parentContext,
+      parentSpan: parentContext ? trace.getSpan(parentContext) : undefined
+    };
+
+    this.operations.set(context.operationId, this.createOperationRecord(context, method, requestId, params));
+
+    return context;
+  }
+
+  /**
+   * Build the per-operation record from the request method and params
+   *
+   * Accepts both raw MCP request params (`name`, `uri`) and the params passed
+   * by MCPInstrumentation (`toolName`, `promptName`, `uri`).
+   */
+  private createOperationRecord(
+    context: MCPOperationContext,
+    method: string,
+    requestId?: string,
+    params?: unknown
+  ): MCPOperationRecord {
+    const record: MCPOperationRecord = {
+      operationId: context.operationId,
+      method,
+      requestId,
+      startTime: context.startTime
     };
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const p = (params && typeof params === 'object' ? params : {}) as Record<string, any>;
+    const asString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+    const attributes: Record<string, string | number | boolean> = {};
+
+    switch (method) {
+      case 'tools/call':
+        record.toolName = asString(p.name) ?? asString(p.toolName);
+        break;
+      case 'resources/read':
+      case 'resources/subscribe':
+      case 'resources/unsubscribe':
+        record.resourceUri = asString(p.uri);
+        break;
+      case 'prompts/get':
+        record.promptName = asString(p.name) ?? asString(p.promptName);
+        break;
+      case 'completion/complete': {
+        const ref = p.ref && typeof p.ref === 'object' ? p.ref : {};
+        const refName = asString(ref.name) ?? asString(ref.uri);
+        const argumentName = asString(p.argument?.name);
+        if (asString(ref.type)) attributes['mcp.completion.ref_type'] = ref.type;
+        if (refName) attributes['mcp.completion.ref'] = refName;
+        if (argumentName) attributes['mcp.completion.argument'] = argumentName;
+        break;
+      }
+      case 'logging/setLevel':
+        if (asString(p.level)) attributes['mcp.logging.level'] = p.level;
+        break;
+      case 'sampling/createMessage':
+        if (Array.isArray(p.messages)) attributes['mcp.sampling.messages_count'] = p.messages.length;
+        if (typeof p.maxTokens === 'number') attributes['mcp.sampling.max_tokens'] = p.maxTokens;
+        break;
+    }
+
+    if (Object.keys(attributes).length > 0) {
+      record.attributes = attributes;
+    }
+
+    const progressToken = p._meta?.progressToken;
+    if (typeof progressToken === 'string' || typeof progressToken === 'number') {
+      record.progressToken = progressToken;
+    }
+
+    return record;
   }
 
   /**
    * Start a new span for an MCP operation
+   *
+   * Server-side operations use SERVER spans; trackmcpClient passes CLIENT.
    */
-  startMCPSpan(method: string, context: MCPOperationContext): Span {
+  startMCPSpan(method: string, context: MCPOperationContext, kind: SpanKind = SpanKind.SERVER): Span {
+    const parent = context.parentContext
+      ?? (context.parentSpan ? trace.setSpan(otelContext.active(), context.parentSpan) : otelContext.active());
+    const sessionLink = context.sessionId ? this.sessions.getSessionLink(context.sessionId) : undefined;
+
+    const record = this.operations.get(context.operationId);
+    if (record && context.sessionId) {
+      record.sessionId = context.sessionId;
+      this.sessions.touchSession(context.sessionId);
+    }
+
+    const clientAttributes = context.sessionId ? this.sessions.getClientAttributes(context.sessionId) : {};
+    // Only SERVER spans handle a request that arrived over an instrumented transport
+    const transportAttributes = kind === SpanKind.SERVER && context.metadata?.requestId
+      ? this.transportStats.takeRequestAttributes(context.metadata.requestId)
+      : {};
+    if (!context.clientId && typeof clientAttributes['mcp.client_id'] === 'string') {
+      context.clientId = clientAttributes['mcp.client_id'];
+    }
+    if (record) {
+      record.kind = kind === SpanKind.CLIENT ? 'client' : 'server';
+      if (typeof clientAttributes['mcp.client.name'] === 'string') {
+        record.clientName = clientAttributes['mcp.client.name'];
+      }
+      if (record.kind === 'server') {
+        this.metrics?.requestStarted(method);
+      }
+    }
+
     const span = this.tracer.startSpan(`mcp.${method}`, {
-      kind: 1, // SERVER kind
+      kind,
+      links: sessionLink ? [sessionLink] : [],
       attributes: {
         'mcp.operation_id': context.operationId,
         'mcp.method': method,
@@ -75,12 +241,16 @@ export class MCPTracker {
         ...(this.config.projectId ? { 'neonflare.project_id': this.config.projectId } : {}),
         ...this.config.defaultAttributes,
         ...(context.metadata?.requestId ? { 'mcp.request_id': context.metadata.requestId } : {}),
+        ...(context.sessionId ? { 'mcp.session_id': context.sessionId } : {}),
+        ...clientAttributes,
+        ...transportAttributes,
         ...(context.metadata?.aiContext ? { 'mcp.tool.ai_context': context.metadata.aiContext } : {})
       } as Attributes
-    });
+    }, parent);
 
     // Store span for later completion
     this.activeSpans.set(context.operationId, span);
+    const parentSpanId = trace.getSpanContext(parent)?.spanId;
 
     // Add telemetry event
     this.addTelemetryEvent({
@@ -89,12 +259,14 @@ export class MCPTracker {
       data: {
         operationId: context.operationId,
         method,
+        kind: kind === SpanKind.CLIENT ? 'client' : 'server',
         metadata: context.metadata,
         projectId: this.config.projectId
       },
       spanContext: {
         traceId: span.spanContext().traceId,
-        spanId: span.spanContext().spanId
+        spanId: span.spanContext().spanId,
+        ...(parentSpanId ? { parentSpanId } : {})
       }
     });
 
@@ -106,10 +278,24 @@ export class MCPTracker {
    */
   endMCPSpan(operationId: string, result: MCPMethodResult): void {
     const span = this.activeSpans.get(operationId);
+    const record = this.operations.get(operationId);
+    this.operations.delete(operationId);
     if (!span) return;
 
+    // Tools usually report failure by returning `isError: true` rather than throwing
+    const toolResultError = record?.method === 'tools/call' && result.success
+      ? getToolResultError(result.data)
+      : undefined;
+    if (toolResultError !== undefined) {
+      result = {
+        ...result,
+        success: false,
+        error: { code: 'TOOL_ERROR', message: toolResultError }
+      };
+    }
+
     const attributes: MCPSpanAttributes = {
-      'mcp.method': this.extractMethodFromOperationId(operationId),
+      'mcp.method': record?.method ?? 'unknown',
       'mcp.success': result.success,
       'mcp.duration_ms': result.duration
     };
@@ -123,19 +309,45 @@ export class MCPTracker {
     }
 
     // Add method-specific attributes
-    this.addMethodSpecificAttributes(attributes, operationId, result);
+    if (record) {
+      this.addMethodSpecificAttributes(attributes, record, result);
+    }
 
     span.setAttributes(attributes as Attributes);
     span.end();
 
     this.activeSpans.delete(operationId);
 
+    if (record?.kind === 'server') {
+      const measurement = {
+        method: record.method,
+        toolName: record.toolName,
+        clientName: record.clientName,
+        success: result.success,
+        durationMs: result.duration,
+        spanContext: span.spanContext()
+      };
+      this.metrics?.requestEnded(measurement);
+      this.prometheus?.recordRequest(measurement);
+    }
+
+    if (record?.sessionId) {
+      this.sessions.recordRequest(record.sessionId, result.success);
+    }
+
     // Add telemetry event
     this.addTelemetryEvent({
       type: TelemetryEventType.REQUEST_END,
       timestamp: result.timestamp,
       data: {
         operationId,
+        method: record?.method,
+        sessionId: record?.sessionId,
+        toolName: record?.toolName,
+        resourceUri: record?.resourceUri,
+        promptName: record?.promptName,
+        // A low-level Server handler does not say which template served the read
+        resourceTemplate: record?.resourceTemplate ?? record?.resourceUri,
         success: result.success,
         duration: result.duration,
         error: result.error,
@@ -153,12 +365,10 @@ export class MCPTracker {
    */
   private addMethodSpecificAttributes(
     attributes: MCPSpanAttributes,
-    operationId: string,
+    record: MCPOperationRecord,
     result: MCPMethodResult
   ): void {
-    const method = this.extractMethodFromOperationId(operationId);
-
-    switch (method) {
+    switch (record.method) {
       case 'tools/list':
         if (result.data?.tools) {
           attributes['mcp.tools_count'] = Array.isArray(result.data.tools) ? result.data.tools.length : 0;
@@ -174,22 +384,110 @@ export class MCPTracker {
           attributes['mcp.prompts_count'] = Array.isArray(result.data.prompts) ? result.data.prompts.length : 0;
         }
         break;
+      case 'resources/templates/list':
+        if (result.data?.resourceTemplates) {
+          attributes['mcp.resource_templates_count'] = Array.isArray(result.data.resourceTemplates)
+            ? result.data.resourceTemplates.length
+            : 0;
+        }
+        break;
+      case 'roots/list':
+        if (result.data?.roots) {
+          attributes['mcp.roots_count'] = Array.isArray(result.data.roots) ? result.data.roots.length : 0;
+        }
+        break;
       case 'tools/call':
-        if (result.data?.tool) {
-          attributes['mcp.tool_name'] = result.data.tool;
+        if (record.toolName) {
+          attributes['mcp.tool_name'] = record.toolName;
+        }
+        if (!result.success && result.error?.code !== 'CANCELLED') {
+          attributes['mcp.tool.error_kind'] = getToolResultError(result.data) !== undefined ? 'result' : 'exception';
         }
         break;
       case 'resources/read':
-        if (result.data?.uri) {
-          attributes['mcp.resource_uri'] = result.data.uri;
+      case 'resources/subscribe':
+      case 'resources/unsubscribe':
+        if (record.resourceUri) {
+          attributes['mcp.resource_uri'] = record.resourceUri;
         }
         break;
       case 'prompts/get':
-        if (result.data?.name) {
-          attributes['mcp.prompt_name'] = result.data.name;
+        if (record.promptName) {
+          attributes['mcp.prompt_name'] = record.promptName;
+        }
+        break;
+      case 'completion/complete':
+        if (Array.isArray(result.data?.completion?.values)) {
+          attributes['mcp.completion.values_count'] = result.data.completion.values.length;
+        }
+        break;
+      case 'sampling/createMessage':
+        if (typeof result.data?.model === 'string') {
+          attributes['mcp.sampling.model'] = result.data.model;
+        }
+        if (typeof result.data?.stopReason === 'string') {
+          attributes['mcp.sampling.stop_reason'] = result.data.stopReason;
+        }
+        break;
+      case 'elicitation/create':
+        if (typeof result.data?.action === 'string') {
+          attributes['mcp.elicitation.action'] = result.data.action;
         }
         break;
     }
+
+    Object.assign(attributes, record.attributes);
+  }
+
+  /**
+   * Record a progress notification as an event on the span of the request it reports on
+   *
+   * Returns false when no in-flight operation has the progress token.
+   */
+  recordProgress(
+    progressToken: string | number,
+    progress: { progress?: number; total?: number; message?: string }
+  ): boolean {
+    const record = Array.from(this.operations.values()).find(r => r.progressToken === progressToken);
+    const span = record ? this.activeSpans.get(record.operationId) : undefined;
+    if (!span) return false;
+
+    span.addEvent('mcp.progress', {
+      'mcp.progress.token': progressToken,
+      ...(typeof progress.progress === 'number' ? { 'mcp.progress.progress': progress.progress } : {}),
+      ...(typeof progress.total === 'number' ? { 'mcp.progress.total': progress.total } : {}),
+      ...(typeof progress.message === 'string' ? { 'mcp.progress.message': progress.message } : {})
+    });
+    return true;
+  }
+
+  /**
+   * End the span of a cancelled request
+   *
+   * The span ends immediately with a cancelled status; the handler's own
+   * completion is then ignored. Returns false when no in-flight operation has
+   * the request ID.
+   */
+  cancelOperation(requestId: string | number, reason?: string): boolean {
+    const record = Array.from(this.operations.values()).find(r => r.requestId === String(requestId));
+    const span = record ? this.activeSpans.get(record.operationId) : undefined;
+    if (!record || !span) return false;
+
+    span.setAttributes({
+      'mcp.cancelled': true,
+      ...(reason ? { 'mcp.cancel_reason': reason } : {})
+    });
+
+    this.endMCPSpan(record.operationId, {
+      success: false,
+      error: {
+        code: 'CANCELLED',
+        message: reason ? `cancelled: ${reason}` : 'cancelled'
+      },
+      duration: Date.now() - record.startTime,
+      timestamp: Date.now()
+    });
+    return true;
   }
 
   /**
@@ -251,19 +549,37 @@ export class MCPTracker {
    */
   private addTelemetryEvent(event: TelemetryEvent): void {
     this.telemetryEvents.push(event);
+    this.aggregator.record(event);
+  }
 
-    // Keep only recent events to prevent memory leaks
-    const maxEvents = 1000;
-    if (this.telemetryEvents.length > maxEvents) {
-      this.telemetryEvents = this.telemetryEvents.slice(-maxEvents);
-    }
+  /**
+   * Get the record for an in-flight operation
+   */
+  getOperationRecord(operationId: string): MCPOperationRecord | undefined {
+    const record = this.operations.get(operationId);
+    return record ? { ...record } : undefined;
   }
 
   /**
-   * Extract method from operation ID
+   * Add details learned while handling to the operation whose span is active in `ctx`
+   *
+   * Used by callbacks that run inside a request handler, e.g. to record which
+   * resource template served a resources/read.
    */
-  private extractMethodFromOperationId(_operationId: string): string {
-    return 'unknown';
+  annotateActiveOperation(
+    details: Pick<MCPOperationRecord, 'resourceTemplate'>,
+    ctx: Context = otelContext.active()
+  ): void {
+    const span = trace.getSpan(ctx);
+    if (!span) return;
+
+    for (const [operationId, activeSpan] of this.activeSpans) {
+      if (activeSpan === span) {
+        const record = this.operations.get(operationId);
+        if (record) Object.assign(record, details);
+        return;
+      }
+    }
   }
 
   /**
@@ -275,49 +591,24 @@ export class MCPTracker {
 
   /**
    * Get current metrics
+   *
+   * Counts, averages and percentiles cover every request since startup, not
+   * just the events still in the buffer.
    */
-  getCurrentMetrics(): Record<string, unknown> {
+  getCurrentMetrics(): MCPMetrics {
+    const { methodMetrics, toolMetrics, resourceTemplateMetrics, promptMetrics, ...totals } = this.aggregator.getMetrics();
+
     return {
-      totalRequests: this.telemetryEvents.filter(e => e.type === TelemetryEventType.REQUEST_END).length,
-      successfulRequests: this.telemetryEvents.filter(e =>
-        e.type === TelemetryEventType.REQUEST_END && e.data.success
-      ).length,
-      failedRequests: this.telemetryEvents.filter(e =>
-        e.type === TelemetryEventType.REQUEST_END && !e.data.success
-      ).length,
-      averageDuration: this.calculateAverageDuration(),
-      requestsPerSecond: this.calculateRequestsPerSecond(),
-      activeSessions: this.activeSpans.size,
-      methodMetrics: {}
+      ...totals,
+      activeSessions: this.sessions.getActiveSessionCount(),
+      ...(this.transportStats.hasData() ? { transport: this.transportStats.getMetrics() } : {}),
+      methodMetrics,
+      toolMetrics,
+      resourceTemplateMetrics,
+      promptMetrics
     };
   }
 
-  /**
-   * Calculate average request duration
-   */
-  private calculateAverageDuration(): number {
-    const completedRequests = this.telemetryEvents.filter(e =>
-      e.type === TelemetryEventType.REQUEST_END && e.data.duration
-    );
-
-    if (completedRequests.length === 0) return 0;
-
-    const totalDuration = completedRequests.reduce((sum: number, event) => sum + (event.data.duration || 0), 0);
-    return totalDuration / completedRequests.length;
-  }
-
-  /**
-   * Calculate current requests per second
-   */
-  private calculateRequestsPerSecond(): number {
-    const recentEvents = this.telemetryEvents.filter(e =>
-      e.type === TelemetryEventType.REQUEST_END &&
-      Date.now() - e.timestamp < 60000 // Last minute
-    );
-
-    return recentEvents.length / 60; // Per second over last minute
-  }
-
   /**
    * Add an instrumentation hook
    */
@@ -339,7 +630,7 @@ export class MCPTracker {
    * Get current telemetry events
    */
   getTelemetryEvents(): TelemetryEvent[] {
-    return [...this.telemetryEvents];
+    return this.telemetryEvents.toArray();
   }
 
   /**
@@ -353,15 +644,112 @@ export class MCPTracker {
    * Shutdown the tracker and cleanup resources
    */
   async shutdown(): Promise<void> {
-    // End all active spans
+    // Record requests still in flight as failed, so active request counts drop back
+    for (const record of Array.from(this.operations.values())) {
+      this.endMCPSpan(record.operationId, {
+        success: false,
+        error: { code: 'SHUTDOWN', message: 'Tracker shutdown' },
+        duration: Date.now() - record.startTime,
+        timestamp: Date.now()
+      });
+    }
+
+    this.sessions.shutdown();
+
+    // End any spans left without an operation record
     for (const [, span] of this.activeSpans) {
       span.setStatus({ code: SpanStatusCode.ERROR, message: 'Tracker shutdown' });
       span.end();
     }
     this.activeSpans.clear();
+    this.operations.clear();
 
     // Clear telemetry events
-    this.telemetryEvents.length = 0;
+    this.telemetryEvents.clear();
+    this.aggregator.reset();
+
+    await this.metrics?.shutdown();
+
+    if (this.prometheusServer) {
+      const server = this.prometheusServer;
+      this.prometheusServer = undefined;
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+
+    // Flush and stop the exporters of a provider we created
+    if (this.tracerProvider) {
+      await this.tracerProvider.shutdown();
+      this.tracerProvider = undefined;
+    }
+  }
+
+  /**
+   * Get the session manager
+   */
+  getSessionManager(): MCPSessionManager {
+    return this.sessions;
+  }
+
+  /**
+   * Get the transport statistics collector
+   */
+  getTransportStats(): MCPTransportStats {
+    return this.transportStats;
+  }
+
+  /**
+   * Get the metrics recorder, if `metricsEnabled` is set
+   */
+  getMetricsRecorder(): MCPMetricsRecorder | undefined {
+    return this.metrics;
+  }
+
+  /**
+   * Get the Prometheus collector, if `prometheus.enabled` is set
+   */
+  getPrometheusCollector(): PrometheusCollector | undefined {
+    return this.prometheus;
+  }
+
+  /**
+   * Get the built-in Prometheus listener, if it was started
+   */
+  getPrometheusServer(): HttpServer | undefined {
+    return this.prometheusServer;
+  }
+
+  /**
+   * Render the current metrics in the OpenMetrics text format
+   *
+   * Per-method and per-tool series are only present when `prometheus.enabled`
+   * is set; the metrics snapshot and error statistics are always included.
+   */
+  renderPrometheusMetrics(): string {
+    return (this.prometheus || new PrometheusCollector()).render({
+      metrics: this.getCurrentMetrics(),
+      errorStats: getErrorHandler().getErrorStats()
+    });
+  }
+
+  /**
+   * Create a request handler serving `/metrics` (or `prometheus.path`), for mounting in an existing HTTP server
+   */
+  getPrometheusHandler(): (req: IncomingMessage, res: ServerResponse) => void {
+    return createPrometheusHandler(() => this.renderPrometheusMetrics(), this.config.prometheus?.path);
+  }
+
+  /**
+   * Get the Rotel agent manager, if Rotel is enabled
+   */
+  getRotelManager(): RotelManager | undefined {
+    return this.rotel;
+  }
+
+  /**
+   * Get the tracer provider built from `sdk` config, if any
+   */
+  getTracerProvider(): NodeTracerProvider | undefined {
+    return this.tracerProvider;
   }
 
   /**
@@ -0,0 +1,144 @@
+import { Attributes } from '@opentelemetry/api';
+import { MCPTransportMetrics } from '../types/index.js';
+
+/**
+ * Maximum number of received requests kept waiting for their handler to start
+ */
+const MAX_PENDING_RECEIPTS = 1000;
+
+interface RequestReceipt {
+  receivedAt: number;
+  bytes: number;
+  transportType: string;
+}
+
+/**
+ * Collects transport-level statistics for a tracker
+ *
+ * Incoming requests leave a receipt keyed by JSON-RPC ID; when the request's
+ * span starts, the receipt is turned into span attributes, so transport
+ * queueing can be told apart from handler latency.
+ */
+export class MCPTransportStats {
+  private messagesReceived = 0;
+  private messagesSent = 0;
+  private bytesReceived = 0;
+  private bytesSent = 0;
+  private parseErrors = 0;
+  private errors = 0;
+  private activeConnections = 0;
+  private totalConnections = 0;
+  private closedConnections = 0;
+  private totalConnectionDuration = 0;
+  private queuedRequests = 0;
+  private totalQueueTime = 0;
+  private receipts = new Map<string, RequestReceipt>();
+
+  /**
+   * Record a received message, keeping a receipt if it is a request
+   */
+  recordReceived(bytes: number, transportType: string, requestId?: string | number): void {
+    this.messagesReceived++;
+    this.bytesReceived += bytes;
+
+    if (requestId === undefined) return;
+
+    this.receipts.set(String(requestId), { receivedAt: Date.now(), bytes, transportType });
+    if (this.receipts.size > MAX_PENDING_RECEIPTS) {
+      // Requests that never reach a handler (e.g. unknown methods) would otherwise pile up
+      const oldest = this.receipts.keys().next().value;
+      if (oldest !== undefined) {
+        this.receipts.delete(oldest);
+      }
+    }
+  }
+
+  /**
+   * Record a sent message
+   */
+  recordSent(bytes: number): void {
+    this.messagesSent++;
+    this.bytesSent += bytes;
+  }
+
+  /**
+   * Record a transport error, distinguishing messages that failed to parse
+   */
+  recordError(error: Error): void {
+    if (isParseError(error)) {
+      this.parseErrors++;
+    } else {
+      this.errors++;
+    }
+  }
+
+  /**
+   * Record a connection being opened
+   */
+  recordConnectionOpened(): void {
+    this.activeConnections++;
+    this.totalConnections++;
+  }
+
+  /**
+   * Record a connection being closed after `duration` milliseconds
+   */
+  recordConnectionClosed(duration: number): void {
+    this.activeConnections = Math.max(0, this.activeConnections - 1);
+    this.closedConnections++;
+    this.totalConnectionDuration += duration;
+  }
+
+  /**
+   * Consume the receipt of a request whose handler is starting, returning span attributes
+   */
+  takeRequestAttributes(requestId: string): Attributes {
+    const receipt = this.receipts.get(requestId);
+    if (!receipt) return {};
+
+    this.receipts.delete(requestId);
+    const queueTime = Date.now() - receipt.receivedAt;
+    this.queuedRequests++;
+    this.totalQueueTime += queueTime;
+
+    return {
+      'mcp.transport.type': receipt.transportType,
+      'mcp.transport.request_bytes': receipt.bytes,
+      'mcp.transport.queue_time_ms': queueTime
+    };
+  }
+
+  /**
+   * Whether any transport has been instrumented
+   */
+  hasData(): boolean {
+    return this.totalConnections > 0 || this.messagesReceived > 0 || this.messagesSent > 0;
+  }
+
+  /**
+   * Get a snapshot of the transport metrics
+   */
+  getMetrics(): MCPTransportMetrics {
+    return {
+      messagesReceived: this.messagesReceived,
+      messagesSent: this.messagesSent,
+      bytesReceived: this.bytesReceived,
+      bytesSent: this.bytesSent,
+      parseErrors: this.parseErrors,
+      errors: this.errors,
+      activeConnections: this.activeConnections,
+      totalConnections: this.totalConnections,
+      averageConnectionDuration: this.closedConnections > 0
+        ? this.totalConnectionDuration / this.closedConnections
+        : 0,
+      averageQueueTime: this.queuedRequests > 0 ? this.totalQueueTime / this.queuedRequests : 0
+    };
+  }
+}
+
+/**
+ * JSON syntax errors and schema validation failures of incoming messages
+ */
+function isParseError(error: Error): boolean {
+  return error instanceof SyntaxError || error?.name === 'ZodError';
+}
@@ -6,19 +6,35 @@
  * and intent when calling tools.
  */
 
-export interface ContextInjectionConfig {
-  /** Whether to enable context injection */
-  enabled?: boolean;
-  /** Description for the context parameter */
-  description?: string;
-  /** Whether context is required */
-  required?: boolean;
-  /** Custom parameter name (default: 'context') */
-  parameterName?: string;
-}
+import { Attributes, diag } from '@opentelemetry/api';
+import { z, ZodRawShape, ZodTypeAny } from 'zod';
+import {
+  ContextInjectionConfig,
+  ContextInjectionPolicy,
+  ContextIntent,
+  ContextIntentField,
+  ContextQuality
+} from '../types/index.js';
+
+export type { ContextInjectionConfig, ContextInjectionPolicy, ContextIntent, ContextIntentField, ContextQuality };
+
+/**
+ * Default fields of the structured intent object
+ */
+export const DEFAULT_INTENT_FIELDS: ContextIntentField[] = [
+  { name: 'intent', description: 'What you are trying to do with this call', required: true },
+  { name: 'goal', description: 'The overall goal of the user request this call serves' },
+  { name: 'expected_outcome', description: 'What you expect this call to return or change' },
+  { name: 'confidence', type: 'number', description: 'How confident you are that this is the right tool (0 to 1)' },
+  { name: 'previous_step', description: 'The previous step or tool call that led to this one' }
+];
 
 /**
  * Inject a context parameter into a tool's input schema
+ *
+ * Accepts a JSON Schema object, a Zod raw shape as taken by
+ * `McpServer.registerTool`, or a Zod object schema. Zod inputs get a Zod
+ * field back so the SDK can still validate and convert them.
  */
 export function injectContextIntoSchema(
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -30,22 +46,39 @@ export function injectContextIntoSchema(
     enabled = true,
     description = 'Explain why you are calling this tool and what you hope to accomplish',
     required = false,
-    parameterName = 'context'
+    parameterName = 'context',
+    mode = 'string',
+    structuredFields = DEFAULT_INTENT_FIELDS
   } = config;
 
   if (!enabled) {
     return schema;
   }
 
+  if (isZodRawShape(schema) || isZodObject(schema)) {
+    let contextField: ZodTypeAny = mode === 'structured'
+      ? createStructuredContextZodType(description, structuredFields)
+      : z.string().describe(description);
+    if (!required) {
+      contextField = contextField.optional();
+    }
+
+    // Never mutate the caller's shape, since the SDK keeps a reference to it
+    return isZodObject(schema)
+      ? schema.extend({ [parameterName]: contextField })
+      : { ...schema, [parameterName]: contextField };
+  }
+
+  const contextProperty = mode === 'structured'
+    ? createStructuredContextProperty(description, structuredFields)
+    : { type: 'string', description };
+
   // Handle different schema formats
   if (!schema) {
     return {
       type: 'object',
       properties: {
-        [parameterName]: {
-          type: 'string',
-          description
-        }
+        [parameterName]: contextProperty
       },
       required: required ? [parameterName] : []
     };
@@ -60,10 +93,7 @@ export function injectContextIntoSchema(
   }
 
   // Add context parameter
-  modifiedSchema.properties[parameterName] = {
-    type: 'string',
-    description
-  };
+  modifiedSchema.properties[parameterName] = contextProperty;
 
   // Add to required array if needed
   if (required) {
@@ -76,8 +106,64 @@ export function injectContextIntoSchema(
   return modifiedSchema;
 }
 
+/**
+ * Build the JSON Schema property for a structured intent object
+ */
+function createStructuredContextProperty(
+  description: string,
+  fields: ContextIntentField[]
+): Record<string, unknown> {
+  const properties: Record<string, unknown> = {};
+  for (const field of fields) {
+    properties[field.name] = {
+      type: field.type || 'string',
+      ...(field.description ? { description: field.description } : {}),
+      ...(field.enum ? { enum: field.enum } : {})
+    };
+  }
+
+  return {
+    type: 'object',
+    description,
+    properties,
+    required: fields.filter(f => f.required).map(f => f.name)
+  };
+}
+
+/**
+ * Build the Zod type for a structured intent object
+ */
+function createStructuredContextZodType(
+  description: string,
+  fields: ContextIntentField[]
+): ZodTypeAny {
+  const shape: ZodRawShape = {};
+  for (const field of fields) {
+    let fieldType: ZodTypeAny;
+    if (field.enum && field.enum.length > 0) {
+      fieldType = z.enum(field.enum as [string, ...string[]]);
+    } else if (field.type === 'number') {
+      fieldType = z.number();
+    } else if (field.type === 'boolean') {
+      fieldType = z.boolean();
+    } else {
+      fieldType = z.string();
+    }
+
+    if (field.description) {
+      fieldType = fieldType.describe(field.description);
+    }
+    shape[field.name] = field.required ? fieldType : fieldType.optional();
+  }
+
+  return z.object(shape).describe(description);
+}
+
 /**
  * Extract context from tool call arguments
+ *
+ * For a structured intent object, the `intent` field is returned as the
+ * free-text context (falling back to the serialized object).
  */
 export function extractContextFromArgs(
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -94,9 +180,87 @@ export function extractContextFromArgs(
     return context;
   }
 
+  const intent = extractStructuredContextFromArgs(args, parameterName);
+  if (intent) {
+    return typeof intent.intent === 'string' ? intent.intent : JSON.stringify(intent);
+  }
+
   return undefined;
 }
 
+/**
+ * Extract a structured intent object from tool call arguments
+ *
+ * Accepts the object itself or a JSON-encoded string, since some clients
+ * serialize nested arguments. Only primitive field values are kept, and when
+ * `fields` is given only those fields are returned.
+ */
+export function extractStructuredContextFromArgs(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  args: any,
+  parameterName: string = 'context',
+  fields?: ContextIntentField[]
+): ContextIntent | undefined {
+  if (!args || typeof args !== 'object') {
+    return undefined;
+  }
+
+  let raw = args[parameterName];
+
+  if (typeof raw === 'string' && raw.trim().startsWith('{')) {
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      return undefined;
+    }
+  }
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return undefined;
+  }
+
+  const allowed = fields ? new Set(fields.map(f => f.name)) : undefined;
+  const intent: ContextIntent = {};
+
+  for (const [key, value] of Object.entries(raw)) {
+    if (allowed && !allowed.has(key)) continue;
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      intent[key] = value;
+    }
+  }
+
+  return Object.keys(intent).length > 0 ? intent : undefined;
+}
+
+/**
+ * Create span attributes for extracted AI context
+ *
+ * Structured intent fields are emitted individually as
+ * `mcp.tool.ai_intent.<field>` so calls can be grouped without free-text parsing.
+ */
+export function createContextAttributes(
+  context?: string,
+  intent?: ContextIntent,
+  quality?: ContextQuality
+): Attributes {
+  const attributes: Attributes = {};
+
+  if (quality) {
+    attributes['mcp.tool.context_quality'] = quality;
+  }
+
+  if (context) {
+    attributes['mcp.tool.ai_context'] = context;
+    attributes['mcp.tool.ai_intent'] = context.substring(0, 200); // Truncated for storage
+  }
+
+  for (const [field, value] of Object.entries(intent || {})) {
+    attributes[`mcp.tool.ai_intent.${field}`] = typeof value === 'string' ? value.substring(0, 200) : value;
+  }
+
+  return attributes;
+}
+
 /**
  * Remove context parameter from arguments before passing to tool implementation
  */
@@ -122,7 +286,58 @@ export function hasContextInjection(
   schema: any,
   parameterName: string = 'context'
 ): boolean {
-  return schema?.properties?.[parameterName]?.type === 'string';
+  if (isZodRawShape(schema) || isZodObject(schema)) {
+    const shape: ZodRawShape = isZodObject(schema) ? schema.shape : schema;
+    const typeName = unwrapZodType(shape[parameterName])?._def?.typeName;
+    return typeName === 'ZodString' || typeName === 'ZodObject';
+  }
+
+  const type = schema?.properties?.[parameterName]?.type;
+  return type === 'string' || type === 'object';
+}
+
+/**
+ * Check whether a value looks like a Zod type
+ *
+ * Duck-typed rather than `instanceof`, since the server may load a different
+ * copy of zod than this package.
+ */
+function isZodTypeLike(value: unknown): value is ZodTypeAny {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as ZodTypeAny).parse === 'function' &&
+    typeof (value as ZodTypeAny).safeParse === 'function'
+  );
+}
+
+function isZodObject(value: unknown): value is z.AnyZodObject {
+  return isZodTypeLike(value) && typeof (value as z.AnyZodObject).extend === 'function';
+}
+
+/**
+ * Check whether a value is a Zod raw shape (a plain object of Zod types)
+ *
+ * Empty objects are treated as JSON Schema, as they carry no Zod types to detect.
+ */
+function isZodRawShape(value: unknown): value is ZodRawShape {
+  if (typeof value !== 'object' || value === null || Array.isArray(value) || isZodTypeLike(value)) {
+    return false;
+  }
+
+  const values = Object.values(value);
+  return values.length > 0 && values.every(isZodTypeLike);
+}
+
+/**
+ * Strip optional, nullable and default wrappers from a Zod type
+ */
+function unwrapZodType(type: unknown): ZodTypeAny | undefined {
+  let current = isZodTypeLike(type) ? type : undefined;
+  while (current?._def?.innerType) {
+    current = current._def.innerType;
+  }
+  return current;
 }
 
 /**
@@ -137,40 +352,83 @@ export class ContextInjectionMiddleware {
       description: 'Explain why you are calling this tool and what you hope to accomplish',
       required: false,
       parameterName: 'context',
+      mode: 'string',
+      structuredFields: DEFAULT_INTENT_FIELDS,
       ...config
     };
   }
 
+  /**
+   * Resolve the effective configuration for a tool
+   *
+   * Glob overrides apply in declaration order, then an exact tool name
+   * override, each on top of the global settings.
+   */
+  resolveToolConfig(toolName: string): ContextInjectionConfig {
+    const { tools, ...resolved } = this.config;
+    if (!tools) {
+      return resolved;
+    }
+
+    for (const [pattern, policy] of Object.entries(tools)) {
+      if (pattern !== toolName && isGlobPattern(pattern) && matchesGlob(pattern, toolName)) {
+        Object.assign(resolved, policy);
+      }
+    }
+
+    if (tools[toolName]) {
+      Object.assign(resolved, tools[toolName]);
+    }
+
+    return resolved;
+  }
+
   /**
    * Process a tool schema during registration
    */
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   processToolSchema(toolName: string, schema: any): any {
-    if (!this.config.enabled) {
+    const toolConfig = this.resolveToolConfig(toolName);
+    if (!toolConfig.enabled) {
       return schema;
     }
 
-    console.log(`[Context Injection] Injecting context into tool: ${toolName}`);
-    return injectContextIntoSchema(schema, this.config);
+    // Never stdout: on a stdio transport it carries the JSON-RPC stream
+    diag.debug(`[Context Injection] Injecting context into tool: ${toolName}`);
+    return injectContextIntoSchema(schema, toolConfig);
   }
 
   /**
    * Process tool arguments during execution
+   *
+   * Tools with injection disabled are passed through untouched, since their
+   * own schema may legitimately use the context parameter name.
    */
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   processToolArguments(toolName: string, args: any): {
     context?: string;
+    intent?: ContextIntent;
+    quality?: ContextQuality;
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     cleanedArgs: any;
   } {
-    const context = extractContextFromArgs(args, this.config.parameterName);
-    const cleanedArgs = stripContextFromArgs(args, this.config.parameterName);
+    const toolConfig = this.resolveToolConfig(toolName);
+    if (!toolConfig.enabled) {
+      return { cleanedArgs: args };
+    }
+
+    const context = extractContextFromArgs(args, toolConfig.parameterName);
+    const intent = toolConfig.mode === 'structured'
+      ? extractStructuredContextFromArgs(args, toolConfig.parameterName, toolConfig.structuredFields)
+      : undefined;
+    const cleanedArgs = stripContextFromArgs(args, toolConfig.parameterName);
+    const quality = assessContextQuality(toolConfig, context, intent);
 
     if (context) {
-      console.log(`[Context Injection] Extracted context for ${toolName}: ${context.substring(0, 100)}...`);
+      diag.debug(`[Context Injection] Extracted context for ${toolName}: ${context.substring(0, 100)}...`);
     }
 
-    return { context, cleanedArgs };
+    return { context, intent, quality, cleanedArgs };
   }
 
   /**
@@ -186,4 +444,53 @@ export class ContextInjectionMiddleware {
   getConfig(): ContextInjectionConfig {
     return { ...this.config };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Rate the provided context against the tool's minLength and validation rule
+ */
+function assessContextQuality(
+  config: ContextInjectionConfig,
+  context?: string,
+  intent?: ContextIntent
+): ContextQuality {
+  if (!context || context.trim().length === 0) {
+    return 'missing';
+  }
+
+  if (config.minLength !== undefined && context.trim().length < config.minLength) {
+    return 'insufficient';
+  }
+
+  if (config.validate) {
+    try {
+      if (!config.validate(context, intent)) {
+        return 'insufficient';
+      }
+    } catch (error) {
+      console.warn('[Context Injection] Error in context validation rule:', error);
+    }
+  }
+
+  return 'sufficient';
+}
+
+function isGlobPattern(pattern: string): boolean {
+  return pattern.includes('*') || pattern.includes('?');
+}
+
+/**
+ * Match a tool name against a glob pattern supporting `*` and `?`
+ */
+function matchesGlob(pattern: string, value: string): boolean {
+  const regex = pattern
+    .split('')
+    .map(char => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+
+  return new RegExp(`^${regex}$`).test(value);
+}
@@ -6,6 +6,35 @@ export {
   OTLPTTelemetryProvider,
   CompositeTelemetryProvider
 } from './telemetry/providers.js';
+export type { OTLPProviderOptions } from './telemetry/providers.js';
+export { OTLPEventExporter, OTLPExportError, OTLPHttpError, OTLP_SIGNALS, isRetryableExportError } from './telemetry/otlp.js';
+export { EventQueue, DEFAULT_EVENT_QUEUE_SIZE } from './telemetry/event-queue.js';
+export type { EventQueueOptions, OverflowPolicy, QueuedRecorderOptions } from './telemetry/event-queue.js';
+export { CircuitBreaker, retryWithBackoff } from './telemetry/circuit-breaker.js';
+export type { CircuitState, CircuitBreakerOptions, RetryOptions } from './telemetry/circuit-breaker.js';
+export { ExportSpool } from './telemetry/spool.js';
+export type { SpoolOptions } from './telemetry/spool.js';
+export type { OTLPExporterOptions, OTLPProtocol, OTLPCompression, OTLPSignal } from './telemetry/otlp.js';
+export {
+  PrometheusCollector,
+  createPrometheusHandler,
+  startPrometheusServer,
+  OPENMETRICS_CONTENT_TYPE,
+  DEFAULT_PROMETHEUS_PORT,
+  DEFAULT_PROMETHEUS_PATH
+} from './telemetry/prometheus.js';
+export type { PrometheusSnapshot } from './telemetry/prometheus.js';
+export {
+  aggregateRequestMetrics,
+  mergeMetrics,
+  mergeOperationMetrics,
+  createEmptyOperationMetrics,
+  createEmptyMethodMetrics,
+  attachSketch,
+  mergeEventQueueMetrics,
+  MCPMetricsAggregator
+} from './telemetry/aggregation.js';
+export type { MCPBreakdownMetrics } from './telemetry/aggregation.js';
 export {
   DefaultTelemetryManager,
   TelemetryProviderFactory,
@@ -46,6 +75,8 @@ export {
   createHTTPRequestAttributes,
   createUserAttributes,
   sanitizeConnectionString,
+  redactSensitiveText,
+  getToolResultError,
   createBusinessAttributes,
   mergeAttributes,
   filterAttributes,
@@ -81,15 +112,29 @@ export {
   measurePerformance,
   measureSyncPerformance
 } from './core/performance.js';
-import { Attributes } from '@opentelemetry/api';
+import { Attributes, context as otelContext, trace } from '@opentelemetry/api';
 import { MCPTracker } from './core/tracker.js';
+import { extractTraceContext, injectTraceContext } from './core/propagation.js';
 import { MCPInstrumentation } from './instrumentation/index.js';
-import { ContextInjectionMiddleware } from './enrichment/context-injector.js';
+import { isMcpServer, wrapMcpServer } from './instrumentation/mcp-server.js';
+import { wrapMcpClient } from './instrumentation/mcp-client.js';
+import { wrapNotificationHandling } from './instrumentation/notifications.js';
+import { wrapConnect } from './instrumentation/transport.js';
+import {
+  ContextInjectionMiddleware,
+  ContextIntent,
+  ContextQuality,
+  createContextAttributes,
+  extractContextFromArgs
+} from './enrichment/context-injector.js';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
 
 export type {
   MCPInstrumentationConfig,
   MCPOperationContext,
+  MCPOperationRecord,
   MCPMethodCall,
   MCPMethodResult,
   MCPSpanAttributes,
@@ -97,17 +142,59 @@ export type {
   EnrichmentData,
   InstrumentationHook,
   InstrumentedMCPServer,
-  ContextInjectionConfig
+  ContextInjectionConfig,
+  ContextIntentField,
+  ContextIntent,
+  ContextInjectionPolicy,
+  ContextQuality,
+  SessionConfig,
+  MCPSessionInfo,
+  SessionEndReason,
+  MCPClientInfo,
+  MCPClientIdentity,
+  ClientIdentifier,
+  MCPTransportMetrics,
+  MCPEventQueueMetrics,
+  SdkConfig,
+  RotelConfig,
+  RotelExporterConfig,
+  MetricsConfig,
+  PrometheusConfig,
+  MCPOperationMetrics,
+  MCPLatencyPercentiles,
+  MCPLatencySketch,
+  MCPExemplar
 } from './types/index.js';
 
+export { MCPSessionManager } from './core/session.js';
+export { normalizeClientName, identifyClient, createClientAttributes } from './core/client-identity.js';
+
+export { extractTraceContext, injectTraceContext } from './core/propagation.js';
+
+export { createTracerProvider, createResource, createSampler, StderrSpanExporter } from './core/sdk.js';
+export { RotelManager } from './core/rotel.js';
+export { MCPMetricsRecorder, DURATION_BUCKETS, StderrMetricExporter } from './core/metrics.js';
+export { DDSketch, LATENCY_QUANTILES, DEFAULT_RELATIVE_ACCURACY } from './core/sketch.js';
+export { RingBuffer } from './core/ring-buffer.js';
+export type { MCPRequestMeasurement } from './core/metrics.js';
+export type { RotelAgent, RotelAgentOptions, RotelModule, RotelModuleLoader } from './core/rotel.js';
+export { MCPTransportStats } from './core/transport-stats.js';
+export { instrumentTransport, getTransportType } from './instrumentation/transport.js';
+
 export {
   injectContextIntoSchema,
   extractContextFromArgs,
+  extractStructuredContextFromArgs,
+  createContextAttributes,
   stripContextFromArgs,
   hasContextInjection,
-  ContextInjectionMiddleware
+  ContextInjectionMiddleware,
+  DEFAULT_INTENT_FIELDS
 } from './enrichment/context-injector.js';
 
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type RequestHandler = (request: any, extra: any) => any;
+
 /**
  * Main entry point for MCP server instrumentation
  *
@@ -124,37 +211,86 @@ export {
  *   contextInjection: { enabled: true }
  * });
  * ```
+ *
+ * Both the high-level `McpServer` and the low-level `Server` are supported.
+ * For an `McpServer`, the underlying `Server` request handlers are traced and
+ * every registered tool, resource and prompt callback gets its own span.
  */
-export function trackmcp(
-  server: Server,
+export function trackmcp<T extends Server | McpServer>(
+  server: T,
   config?: import('./types/index.js').MCPInstrumentationConfig
-): Server {
+): T {
   const tracker = new MCPTracker(config);
   const instrumentation = new MCPInstrumentation(tracker);
   const contextInjector = new ContextInjectionMiddleware(config?.contextInjection);
-  
+  const lowLevelServer: Server = isMcpServer(server) ? server.server : (server as Server);
+
   // Store instrumentation on server for later access
+  const targets = lowLevelServer === server ? [server] : [server, lowLevelServer];
+  for (const target of targets) {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (target as any).__neonflare_instrumentation = instrumentation;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (target as any).__neonflare_tracker = tracker;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (target as any).__neonflare_context_injector = contextInjector;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (target as any).__neonflare_config = config;
+  }
+
+  // Wrap server methods with instrumentation
+  wrapServerMethods(lowLevelServer, instrumentation, tracker, contextInjector, config);
+
+  if (isMcpServer(server)) {
+    wrapMcpServer(server, tracker);
+  }
+
+  return server;
+}
+
+/**
+ * Entry point for MCP client instrumentation
+ *
+ * Usage:
+ * ```typescript
+ * import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+ * import { trackmcpClient } from '@neonflare/mcp';
+ *
+ * const client = new Client({ name: "my-agent", version: "1.0.0" });
+ * trackmcpClient(client, { projectId: "proj_xyz", serviceName: "my-agent" });
+ * ```
+ *
+ * `callTool`, `readResource`, `getPrompt`, `listTools` and `request` each
+ * create a CLIENT span with the same attributes as the server-side spans.
+ * The `prometheus` block is ignored: only server requests are served for
+ * scraping, and the server's tracker already owns the listener.
+ */
+export function trackmcpClient<T extends Client>(
+  client: T,
+  config?: import('./types/index.js').MCPInstrumentationConfig
+): T {
+  const tracker = new MCPTracker({ ...config, prometheus: undefined });
+  const instrumentation = new MCPInstrumentation(tracker);
+
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  (server as any).__neonflare_instrumentation = instrumentation;
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  (server as any).__neonflare_tracker = tracker;
+  (client as any).__neonflare_instrumentation = instrumentation;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  (server as any).__neonflare_context_injector = contextInjector;
+  (client as any).__neonflare_tracker = tracker;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  (server as any).__neonflare_config = config;
-  
-  // Wrap server methods with instrumentation
-  wrapServerMethods(server, instrumentation, tracker, contextInjector, config);
-  
-  return server;
+  (client as any).__neonflare_config = config;
+
+  wrapMcpClient(client, tracker);
+  wrapConnect(client, tracker);
+
+  return client;
 }
 
 /**
  * Wrap MCP server methods with automatic instrumentation
  *
- * Note: Context injection is handled at the application level by modifying
- * tool schemas before calling trackmcp(). The server wrapping focuses on
- * intercepting handler execution for tracing and telemetry.
+ * When `contextInjection.enabled` is set, the wrapped tools/list handler adds
+ * the context parameter to every returned input schema and the wrapped
+ * tools/call handler strips it from the arguments before the tool runs.
  */
 function wrapServerMethods(
   server: Server,
@@ -163,86 +299,281 @@ function wrapServerMethods(
   contextInjector: ContextInjectionMiddleware,
   config?: import('./types/index.js').MCPInstrumentationConfig
 ): void {
+  trackSessionLifecycle(server, tracker);
+  wrapConnect(server, tracker);
+  wrapServerToClientRequests(server, instrumentation);
+  wrapNotificationHandling(server, tracker);
+
+  // Wrap handlers registered before trackmcp() ran, including the
+  // initialize and ping handlers the SDK installs in its constructor
+  wrapExistingRequestHandlers(server, tracker, contextInjector, config);
+
   const originalSetRequestHandler = server.setRequestHandler.bind(server);
 
   // Intercept setRequestHandler to wrap all method handlers
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   server.setRequestHandler = function(schema: any, handler: any) {
     const method = schema.shape?.method?.value || 'unknown';
+    const wrappedHandler = createInstrumentedHandler(server, method, handler, tracker, contextInjector, config);
+
+    return originalSetRequestHandler(schema, wrappedHandler);
+  };
+}
 
+/**
+ * Wrap request handlers already present in the server's handler map
+ */
+function wrapExistingRequestHandlers(
+  server: Server,
+  tracker: MCPTracker,
+  contextInjector: ContextInjectionMiddleware,
+  config?: import('./types/index.js').MCPInstrumentationConfig
+): void {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const handlers: Map<string, RequestHandler> | undefined = (server as any)._requestHandlers;
+  if (!(handlers instanceof Map)) {
+    return;
+  }
+
+  for (const [method, handler] of handlers) {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const wrappedHandler = async (request: any, extra: any) => {
-      const requestId = request.id || `req_${Date.now()}`;
+    if ((handler as any).__neonflare_wrapped) {
+      continue;
+    }
+    handlers.set(method, createInstrumentedHandler(server, method, handler, tracker, contextInjector, config));
+  }
+}
 
-      const context = tracker.createOperationContext(method, requestId, request.params);
-      const span = tracker.startMCPSpan(method, context);
+/**
+ * Create a request handler that traces each invocation of the original handler
+ */
+function createInstrumentedHandler(
+  server: Server,
+  method: string,
+  handler: RequestHandler,
+  tracker: MCPTracker,
+  contextInjector: ContextInjectionMiddleware,
+  config?: import('./types/index.js').MCPInstrumentationConfig
+): RequestHandler {
+  // Automatic injection is opt-in; updateConfig() on the injector can still turn it off later
+  const injectionActive = () => Boolean(config?.contextInjection?.enabled && contextInjector.getConfig().enabled);
 
-      // Extract AI context if this is a tool call and context was injected
-      let aiContext: string | undefined;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const wrappedHandler = async (request: any, extra: any) => {
+    // The SDK strips the JSON-RPC id when parsing the request; it lives on extra
+    const requestId = String(request.id ?? extra?.requestId ?? `req_${Date.now()}`);
+
+    // Continue the caller's trace when it sent traceparent/baggage in _meta
+    const parentContext = extractTraceContext(request.params?._meta);
+    const context = tracker.createOperationContext(method, requestId, request.params, parentContext);
+    context.sessionId = resolveSessionId(server, method, request, extra, tracker);
+    const span = tracker.startMCPSpan(method, context);
 
-      if (method === 'tools/call' && request.params?.arguments?.context) {
-        aiContext = request.params.arguments.context;
+    // Extract AI context if this is a tool call and context was injected
+    if (method === 'tools/call' && request.params) {
+      let aiContext: string | undefined;
+      let aiIntent: ContextIntent | undefined;
+      let contextQuality: ContextQuality | undefined;
 
-        // Add AI context to span
-        if (aiContext) {
-          span.setAttributes({
-            'mcp.tool.ai_context': aiContext,
-            'mcp.tool.ai_intent': aiContext.substring(0, 200) // Truncated for storage
-          } as unknown as Attributes);
-        }
+      if (injectionActive()) {
+        // Strip the injected parameter so tool code never sees it
+        const { context: extracted, intent, quality, cleanedArgs } = contextInjector.processToolArguments(
+          request.params.name,
+          request.params.arguments
+        );
+        aiContext = extracted;
+        aiIntent = intent;
+        contextQuality = quality;
+        request = { ...request, params: { ...request.params, arguments: cleanedArgs } };
+      } else {
+        aiContext = extractContextFromArgs(request.params.arguments, contextInjector.getConfig().parameterName);
       }
 
-      // Add project ID to span if configured
-      if (config?.projectId) {
-        span.setAttributes({
-          'neonflare.project_id': config.projectId
-        } as unknown as Attributes);
+      // Add AI context to span
+      span.setAttributes(createContextAttributes(aiContext, aiIntent, contextQuality));
+    }
+
+    // Add project ID to span if configured
+    if (config?.projectId) {
+      span.setAttributes({
+        'neonflare.project_id': config.projectId
+      } as unknown as Attributes);
+    }
+
+    try {
+      // Call original handler with the request span active so nested
+      // spans (e.g. McpServer tool callbacks) become its children
+      let result = await otelContext.with(
+        trace.setSpan(parentContext, span),
+        () => handler(request, extra)
+      );
+
+      if (method === 'tools/list' && injectionActive()) {
+        result = injectContextIntoToolList(result, contextInjector);
       }
 
-      try {
-        // Call original handler
-        const result = await handler(request, extra);
-
-        tracker.endMCPSpan(context.operationId, {
-          success: true,
-          data: result,
-          duration: Date.now() - context.startTime,
-          timestamp: Date.now()
-        });
-
-        return result;
-      } catch (error: unknown) {
-        tracker.endMCPSpan(context.operationId, {
-          success: false,
-          error: {
-            code: (error as Error & { code?: string }).code || 'HANDLER_ERROR',
-            message: (error as Error).message || 'Handler execution failed',
-            details: error
-          },
-          duration: Date.now() - context.startTime,
-          timestamp: Date.now()
-        });
-
-        throw error;
+      if (method === 'initialize' && context.sessionId) {
+        tracker.getSessionManager().updateSession(context.sessionId, { protocolVersion: result?.protocolVersion });
       }
-    };
 
-    return originalSetRequestHandler(schema, wrappedHandler);
+      tracker.endMCPSpan(context.operationId, {
+        success: true,
+        data: result,
+        duration: Date.now() - context.startTime,
+        timestamp: Date.now()
+      });
+
+      return result;
+    } catch (error: unknown) {
+      tracker.endMCPSpan(context.operationId, {
+        success: false,
+        error: {
+          code: (error as Error & { code?: string }).code || 'HANDLER_ERROR',
+          message: (error as Error).message || 'Handler execution failed',
+          details: error
+        },
+        duration: Date.now() - context.startTime,
+        timestamp: Date.now()
+      });
+
+      throw error;
+    }
+  };
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (wrappedHandler as any).__neonflare_wrapped = true;
+  return wrappedHandler;
+}
+
+/**
+ * Trace the requests a server sends to its client (sampling, elicitation, roots)
+ */
+function wrapServerToClientRequests(server: Server, instrumentation: MCPInstrumentation): void {
+  const originalCreateMessage = server.createMessage.bind(server);
+  const originalElicitInput = server.elicitInput.bind(server);
+  const originalListRoots = server.listRoots.bind(server);
+
+  // Each request is sent inside its span's context, so the span's trace
+  // context is injected into the outgoing request's _meta
+  server.createMessage = (params, options) =>
+    instrumentation.instrumentSamplingCreateMessage(
+      p => originalCreateMessage(injectTraceContext(p) as typeof p, options),
+      params
+    );
+
+  server.elicitInput = (params, options) =>
+    instrumentation.instrumentElicitationCreate(
+      p => originalElicitInput(injectTraceContext(p) as typeof p, options),
+      params
+    );
+
+  server.listRoots = (params, options) =>
+    instrumentation.instrumentRootsList(() => originalListRoots(injectTraceContext(params), options));
+}
+
+/**
+ * End the server's current session when its transport closes
+ */
+function trackSessionLifecycle(server: Server, tracker: MCPTracker): void {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const internals = server as any;
+  if (typeof internals._onclose !== 'function' || internals._onclose.__neonflare_wrapped) {
+    return;
+  }
+
+  const originalOnClose = internals._onclose.bind(server);
+  const wrappedOnClose = () => {
+    const sessionId = internals.__neonflare_session_id;
+    if (sessionId) {
+      tracker.getSessionManager().endSession(sessionId, 'transport_closed');
+      internals.__neonflare_session_id = undefined;
+    }
+    return originalOnClose();
+  };
+  wrappedOnClose.__neonflare_wrapped = true;
+  internals._onclose = wrappedOnClose;
+}
+
+/**
+ * Find the session a request belongs to, starting a new one on initialize
+ *
+ * The transport session ID is used when the transport has one (Streamable
+ * HTTP); otherwise the server's current session is used, since a server is
+ * connected to a single transport at a time. For the same reason, a repeated
+ * initialize replaces the server's current session.
+ */
+function resolveSessionId(
+  server: Server,
+  method: string,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  request: any,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  extra: any,
+  tracker: MCPTracker
+): string | undefined {
+  const sessions = tracker.getSessionManager();
+  if (!sessions.isEnabled()) {
+    return undefined;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const internals = server as any;
+  const transportSessionId: string | undefined = typeof extra?.sessionId === 'string' ? extra.sessionId : undefined;
+
+  if (method === 'initialize') {
+    const previousSessionId: string | undefined = internals.__neonflare_session_id;
+    if (previousSessionId && previousSessionId !== transportSessionId) {
+      sessions.endSession(previousSessionId, 'replaced');
+    }
+
+    const session = sessions.startSession({
+      sessionId: transportSessionId,
+      clientInfo: request.params?.clientInfo,
+      protocolVersion: request.params?.protocolVersion,
+      capabilities: request.params?.capabilities
+    });
+    internals.__neonflare_session_id = session.sessionId;
+    return session.sessionId;
+  }
+
+  if (transportSessionId && sessions.getSession(transportSessionId)) {
+    return transportSessionId;
+  }
+
+  return internals.__neonflare_session_id;
+}
+
+/**
+ * Rewrite every input schema in a tools/list result to include the context parameter
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function injectContextIntoToolList(result: any, contextInjector: ContextInjectionMiddleware): any {
+  if (!result || !Array.isArray(result.tools)) {
+    return result;
+  }
+
+  return {
+    ...result,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    tools: result.tools.map((tool: any) => ({
+      ...tool,
+      inputSchema: contextInjector.processToolSchema(tool.name, tool.inputSchema)
+    }))
   };
 }
 
 /**
- * Get instrumentation instance from an instrumented server
+ * Get instrumentation instance from an instrumented server or client
  */
-export function getInstrumentation(server: Server): MCPInstrumentation | undefined {
+export function getInstrumentation(server: Server | McpServer | Client): MCPInstrumentation | undefined {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   return (server as any).__neonflare_instrumentation;
 }
 
 /**
- * Get tracker instance from an instrumented server
+ * Get tracker instance from an instrumented server or client
  */
-export function getTracker(server: Server): MCPTracker | undefined {
+export function getTracker(server: Server | McpServer | Client): MCPTracker | undefined {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   return (server as any).__neonflare_tracker;
 }
@@ -250,7 +581,7 @@ export function getTracker(server: Server): MCPTracker | undefined {
 /**
  * Get context injector instance from an instrumented server
  */
-export function getContextInjector(server: Server): ContextInjectionMiddleware | undefined {
+export function getContextInjector(server: Server | McpServer): ContextInjectionMiddleware | undefined {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   return (server as any).__neonflare_context_injector;
 }
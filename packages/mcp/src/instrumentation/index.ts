@@ -1,3 +1,15 @@
+import { SpanKind, context as otelContext, trace } from '@opentelemetry/api';
+import type {
+  CompleteRequest,
+  CompleteResult,
+  CreateMessageRequest,
+  CreateMessageResult,
+  ElicitRequest,
+  ElicitResult,
+  ListResourceTemplatesResult,
+  ListRootsResult,
+  LoggingLevel
+} from '@modelcontextprotocol/sdk/types.js';
 import { MCPTracker } from '../core/tracker.js';
 import {
   MCPOperationContext,
@@ -130,16 +142,149 @@ export class MCPInstrumentation {
     );
   }
 
+  /**
+   * Instrument a resources/templates/list method call
+   */
+  async instrumentResourceTemplatesList(
+    handler: () => Promise<ListResourceTemplatesResult>,
+    requestId?: string
+  ): Promise<ListResourceTemplatesResult> {
+    return this.instrumentMethod(
+      MCPMethodType.RESOURCES_TEMPLATES_LIST,
+      handler,
+      requestId
+    );
+  }
+
+  /**
+   * Instrument a resources/subscribe method call
+   */
+  async instrumentResourcesSubscribe(
+    handler: (uri: string) => Promise<unknown>,
+    uri: string,
+    requestId?: string
+  ): Promise<unknown> {
+    return this.instrumentMethod(
+      MCPMethodType.RESOURCES_SUBSCRIBE,
+      () => handler(uri),
+      requestId,
+      { uri }
+    );
+  }
+
+  /**
+   * Instrument a resources/unsubscribe method call
+   */
+  async instrumentResourcesUnsubscribe(
+    handler: (uri: string) => Promise<unknown>,
+    uri: string,
+    requestId?: string
+  ): Promise<unknown> {
+    return this.instrumentMethod(
+      MCPMethodType.RESOURCES_UNSUBSCRIBE,
+      () => handler(uri),
+      requestId,
+      { uri }
+    );
+  }
+
+  /**
+   * Instrument a completion/complete method call
+   */
+  async instrumentCompletionComplete(
+    handler: (params: CompleteRequest['params']) => Promise<CompleteResult>,
+    params: CompleteRequest['params'],
+    requestId?: string
+  ): Promise<CompleteResult> {
+    return this.instrumentMethod(
+      MCPMethodType.COMPLETION_COMPLETE,
+      () => handler(params),
+      requestId,
+      params
+    );
+  }
+
+  /**
+   * Instrument a logging/setLevel method call
+   */
+  async instrumentLoggingSetLevel(
+    handler: (level: LoggingLevel) => Promise<unknown>,
+    level: LoggingLevel,
+    requestId?: string
+  ): Promise<unknown> {
+    return this.instrumentMethod(
+      MCPMethodType.LOGGING_SET_LEVEL,
+      () => handler(level),
+      requestId,
+      { level }
+    );
+  }
+
+  /**
+   * Instrument a sampling/createMessage request sent to the client
+   */
+  async instrumentSamplingCreateMessage(
+    handler: (params: CreateMessageRequest['params']) => Promise<CreateMessageResult>,
+    params: CreateMessageRequest['params'],
+    requestId?: string
+  ): Promise<CreateMessageResult> {
+    return this.instrumentMethod(
+      MCPMethodType.SAMPLING_CREATE_MESSAGE,
+      () => handler(params),
+      requestId,
+      params,
+      SpanKind.CLIENT
+    );
+  }
+
+  /**
+   * Instrument an elicitation/create request sent to the client
+   */
+  async instrumentElicitationCreate(
+    handler: (params: ElicitRequest['params']) => Promise<ElicitResult>,
+    params: ElicitRequest['params'],
+    requestId?: string
+  ): Promise<ElicitResult> {
+    return this.instrumentMethod(
+      MCPMethodType.ELICITATION_CREATE,
+      () => handler(params),
+      requestId,
+      params,
+      SpanKind.CLIENT
+    );
+  }
+
+  /**
+   * Instrument a roots/list request sent to the client
+   */
+  async instrumentRootsList(
+    handler: () => Promise<ListRootsResult>,
+    requestId?: string
+  ): Promise<ListRootsResult> {
+    return this.instrumentMethod(
+      MCPMethodType.ROOTS_LIST,
+      handler,
+      requestId,
+      undefined,
+      SpanKind.CLIENT
+    );
+  }
+
   /**
    * Generic method instrumentation
+   *
+   * Server-to-client requests (sampling, elicitation, roots) use CLIENT spans.
+   * The handler runs inside the span's context, so anything it sends or
+   * starts is a child of the span.
    */
-  private async instrumentMethod(
+  private async instrumentMethod<T>(
     methodType: MCPMethodType,
-    handler: () => Promise<unknown>,
+    handler: () => Promise<T>,
     requestId?: string,
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    methodParams?: any
-  ): Promise<unknown> {
+    methodParams?: any,
+    kind: SpanKind = SpanKind.SERVER
+  ): Promise<T> {
     const context = this.tracker.createOperationContext(
       methodType,
       requestId,
@@ -148,7 +293,7 @@ export class MCPInstrumentation {
 
     this.methodContexts.set(context.operationId, context);
 
-    this.tracker.startMCPSpan(methodType, context);
+    const span = this.tracker.startMCPSpan(methodType, context, kind);
 
     const methodCall: MCPMethodCall = {
       method: methodType,
@@ -161,7 +306,7 @@ export class MCPInstrumentation {
       await this.tracker.executeBeforeHooks(context, methodCall);
 
       // Execute the handler
-      const result = await handler();
+      const result = await otelContext.with(trace.setSpan(otelContext.active(), span), handler);
 
       // End span successfully
       const methodResult: MCPMethodResult = {
@@ -241,7 +386,9 @@ export class MCPInstrumentation {
    * Shutdown instrumentation
    */
   async shutdown(): Promise<void> {
+    // Flush spans to Rotel before stopping it
     await this.tracker.shutdown();
+    await this.tracker.getRotelManager()?.stop();
   }
 
   /**
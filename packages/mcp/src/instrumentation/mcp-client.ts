@@ -0,0 +1,144 @@
+import { context as otelContext, trace, SpanKind } from '@opentelemetry/api';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { MCPTracker } from '../core/tracker.js';
+import { injectTraceContext } from '../core/propagation.js';
+
+/**
+ * Instrumentation for the SDK Client
+ *
+ * Outgoing requests get CLIENT-kind spans built by the same MCPTracker used on
+ * the server side, so a process acting as both client and server produces
+ * spans with the same attributes and telemetry events for each side. The
+ * span's trace context is injected into the request's `_meta` so an
+ * instrumented server continues the same trace.
+ */
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyMethod = (...args: any[]) => Promise<any>;
+
+/**
+ * Clients in the middle of calling a wrapped method's original, so the
+ * request() call a high-level method (callTool, readResource, ...) makes
+ * internally does not create a second span. The SDK makes that call
+ * synchronously, so the marker only covers the synchronous part of the
+ * original call; unlike a context value, it works without a registered
+ * context manager.
+ */
+const issuingClients = new WeakSet<Client>();
+
+/**
+ * High-level Client methods and the MCP method each one sends
+ */
+const CLIENT_METHODS: Array<[keyof Client, string]> = [
+  ['callTool', 'tools/call'],
+  ['readResource', 'resources/read'],
+  ['getPrompt', 'prompts/get'],
+  ['listTools', 'tools/list']
+];
+
+/**
+ * Wrap the request methods of an SDK Client with CLIENT spans
+ */
+export function wrapMcpClient(client: Client, tracker: MCPTracker): void {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const target = client as any;
+
+  for (const [name, method] of CLIENT_METHODS) {
+    const original = target[name];
+    if (typeof original !== 'function' || original.__neonflare_wrapped) continue;
+
+    target[name] = createInstrumentedClientMethod(
+      client,
+      tracker,
+      original.bind(client),
+      () => method,
+      (args) => args[0],
+      (args, params) => [params, ...args.slice(1)]
+    );
+  }
+
+  const originalRequest = target.request;
+  if (typeof originalRequest === 'function' && !originalRequest.__neonflare_wrapped) {
+    target.request = createInstrumentedClientMethod(
+      client,
+      tracker,
+      originalRequest.bind(client),
+      (args) => (typeof args[0]?.method === 'string' ? args[0].method : 'unknown'),
+      (args) => args[0]?.params,
+      (args, params) => [{ ...(args[0] as object), params }, ...args.slice(1)]
+    );
+  }
+}
+
+/**
+ * Create a client method that traces each outgoing request
+ */
+function createInstrumentedClientMethod(
+  client: Client,
+  tracker: MCPTracker,
+  original: AnyMethod,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  getMethod: (args: any[]) => string,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  getParams: (args: any[]) => any,
+  withParams: (args: unknown[], params: unknown) => unknown[]
+): AnyMethod {
+  const wrapped = async (...args: unknown[]) => {
+    // Already traced by the high-level method that issued this request
+    if (issuingClients.has(client)) {
+      return original(...args);
+    }
+
+    const params = getParams(args);
+    const method = getMethod(args);
+    const context = tracker.createOperationContext(method, undefined, params);
+    const span = tracker.startMCPSpan(method, context, SpanKind.CLIENT);
+
+    const serverVersion = client.getServerVersion();
+    if (serverVersion) {
+      span.setAttributes({
+        'mcp.server.name': serverVersion.name,
+        'mcp.server.version': serverVersion.version
+      });
+    }
+
+    try {
+      const activeContext = trace.setSpan(otelContext.active(), span);
+      const propagatedArgs = withParams(args, injectTraceContext(params, activeContext));
+      const result = await otelContext.with(activeContext, () => {
+        issuingClients.add(client);
+        try {
+          return original(...propagatedArgs);
+        } finally {
+          issuingClients.delete(client);
+        }
+      });
+
+      tracker.endMCPSpan(context.operationId, {
+        success: true,
+        data: result,
+        duration: Date.now() - context.startTime,
+        timestamp: Date.now()
+      });
+
+      return result;
+    } catch (error: unknown) {
+      tracker.endMCPSpan(context.operationId, {
+        success: false,
+        error: {
+          code: (error as Error & { code?: string | number }).code || 'CLIENT_ERROR',
+          message: (error as Error).message || 'Request failed',
+          details: error
+        },
+        duration: Date.now() - context.startTime,
+        timestamp: Date.now()
+      });
+
+      throw error;
+    }
+  };
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (wrapped as any).__neonflare_wrapped = true;
+  return wrapped;
+}
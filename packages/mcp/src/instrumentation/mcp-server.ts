@@ -0,0 +1,341 @@
+import { context as otelContext, trace, Attributes, SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import type {
+  McpServer,
+  RegisteredTool,
+  RegisteredResource,
+  RegisteredResourceTemplate,
+  RegisteredPrompt
+} from '@modelcontextprotocol/sdk/server/mcp.js';
+import { MCPTracker } from '../core/tracker.js';
+import { MCPOperationRecord } from '../types/index.js';
+import { getToolResultError } from '../utils/index.js';
+
+/**
+ * Instrumentation for the high-level McpServer API
+ *
+ * Tools, resources and prompts registered through McpServer are dispatched by
+ * the SDK's own tools/call, resources/read and prompts/get handlers, so the
+ * request span only knows the protocol method. Wrapping each registered
+ * callback gives every tool, resource and prompt its own span carrying the
+ * registration metadata.
+ */
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyCallback = (...args: any[]) => any;
+
+/**
+ * Check whether a server instance is a high-level McpServer
+ */
+export function isMcpServer(server: unknown): server is McpServer {
+  return (
+    typeof server === 'object' &&
+    server !== null &&
+    'server' in server &&
+    typeof (server as McpServer).registerTool === 'function'
+  );
+}
+
+/**
+ * Wrap McpServer registration methods so every tool, resource and prompt
+ * callback is traced, including those registered before instrumentation
+ */
+export function wrapMcpServer(mcpServer: McpServer, tracker: MCPTracker): void {
+  wrapRegistrationMethods(mcpServer, tracker);
+
+  // Instrument anything registered before trackmcp() was called
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const internals = mcpServer as any;
+
+  for (const [name, tool] of Object.entries<RegisteredTool>(internals._registeredTools || {})) {
+    instrumentRegisteredTool(tracker, name, tool);
+  }
+  for (const [uri, resource] of Object.entries<RegisteredResource>(internals._registeredResources || {})) {
+    instrumentRegisteredResource(tracker, uri, resource);
+  }
+  for (const [name, template] of Object.entries<RegisteredResourceTemplate>(internals._registeredResourceTemplates || {})) {
+    instrumentRegisteredResourceTemplate(tracker, name, template);
+  }
+  for (const [name, prompt] of Object.entries<RegisteredPrompt>(internals._registeredPrompts || {})) {
+    instrumentRegisteredPrompt(tracker, name, prompt);
+  }
+}
+
+/**
+ * Override the public registration methods to instrument new registrations
+ */
+function wrapRegistrationMethods(mcpServer: McpServer, tracker: MCPTracker): void {
+  const originalTool = mcpServer.tool.bind(mcpServer) as AnyCallback;
+  const originalRegisterTool = mcpServer.registerTool.bind(mcpServer) as AnyCallback;
+  const originalResource = mcpServer.resource.bind(mcpServer) as AnyCallback;
+  const originalRegisterResource = mcpServer.registerResource.bind(mcpServer) as AnyCallback;
+  const originalPrompt = mcpServer.prompt.bind(mcpServer) as AnyCallback;
+  const originalRegisterPrompt = mcpServer.registerPrompt.bind(mcpServer) as AnyCallback;
+
+  mcpServer.tool = ((name: string, ...rest: unknown[]) => {
+    const registered: RegisteredTool = originalTool(name, ...rest);
+    instrumentRegisteredTool(tracker, name, registered);
+    return registered;
+  }) as McpServer['tool'];
+
+  mcpServer.registerTool = ((name: string, ...rest: unknown[]) => {
+    const registered: RegisteredTool = originalRegisterTool(name, ...rest);
+    instrumentRegisteredTool(tracker, name, registered);
+    return registered;
+  }) as McpServer['registerTool'];
+
+  const instrumentResource = (
+    name: string,
+    uriOrTemplate: unknown,
+    registered: RegisteredResource | RegisteredResourceTemplate
+  ) => {
+    if ('resourceTemplate' in registered) {
+      instrumentRegisteredResourceTemplate(tracker, name, registered);
+    } else {
+      instrumentRegisteredResource(tracker, String(uriOrTemplate), registered);
+    }
+  };
+
+  mcpServer.resource = ((name: string, uriOrTemplate: unknown, ...rest: unknown[]) => {
+    const registered = originalResource(name, uriOrTemplate, ...rest);
+    instrumentResource(name, uriOrTemplate, registered);
+    return registered;
+  }) as McpServer['resource'];
+
+  mcpServer.registerResource = ((name: string, uriOrTemplate: unknown, ...rest: unknown[]) => {
+    const registered = originalRegisterResource(name, uriOrTemplate, ...rest);
+    instrumentResource(name, uriOrTemplate, registered);
+    return registered;
+  }) as McpServer['registerResource'];
+
+  mcpServer.prompt = ((name: string, ...rest: unknown[]) => {
+    const registered: RegisteredPrompt = originalPrompt(name, ...rest);
+    instrumentRegisteredPrompt(tracker, name, registered);
+    return registered;
+  }) as McpServer['prompt'];
+
+  mcpServer.registerPrompt = ((name: string, ...rest: unknown[]) => {
+    const registered: RegisteredPrompt = originalRegisterPrompt(name, ...rest);
+    instrumentRegisteredPrompt(tracker, name, registered);
+    return registered;
+  }) as McpServer['registerPrompt'];
+}
+
+/**
+ * Instrument a registered tool, keeping the wrapper in place across update() calls
+ */
+function instrumentRegisteredTool(tracker: MCPTracker, name: string, tool: RegisteredTool): void {
+  if (isInstrumented(tool.callback)) return;
+
+  let toolName = name;
+  const wrap = (callback: AnyCallback) =>
+    wrapCallback(tracker, callback, () => ({
+      spanName: `mcp.tool.${toolName}`,
+      attributes: {
+        'mcp.tool_name': toolName,
+        ...optionalAttribute('mcp.tool.title', tool.title),
+        ...optionalAttribute('mcp.tool.description', tool.description),
+        ...prefixedAttributes('mcp.tool.annotations', tool.annotations),
+        ...prefixedAttributes('mcp.tool.meta', tool._meta)
+      }
+    }));
+
+  tool.callback = wrap(tool.callback) as RegisteredTool['callback'];
+
+  const originalUpdate = tool.update.bind(tool);
+  tool.update = ((updates: Parameters<RegisteredTool['update']>[0]) => {
+    if (typeof updates.name === 'string') {
+      toolName = updates.name;
+    }
+    originalUpdate({
+      ...updates,
+      ...(updates.callback ? { callback: wrap(updates.callback) } : {})
+    });
+  }) as RegisteredTool['update'];
+}
+
+/**
+ * Instrument a registered fixed-URI resource
+ */
+function instrumentRegisteredResource(tracker: MCPTracker, uri: string, resource: RegisteredResource): void {
+  if (isInstrumented(resource.readCallback)) return;
+
+  const wrap = (callback: AnyCallback) =>
+    wrapCallback(tracker, callback, (args) => ({
+      spanName: `mcp.resource.${resource.name}`,
+      operation: { resourceTemplate: uri },
+      attributes: {
+        'mcp.resource_uri': args[0] instanceof URL ? args[0].toString() : uri,
+        'mcp.resource_name': resource.name,
+        ...optionalAttribute('mcp.resource.title', resource.title),
+        ...optionalAttribute('mcp.resource.description', resource.metadata?.description),
+        ...optionalAttribute('mcp.resource.mime_type', resource.metadata?.mimeType)
+      }
+    }));
+
+  resource.readCallback = wrap(resource.readCallback) as RegisteredResource['readCallback'];
+
+  const originalUpdate = resource.update.bind(resource);
+  resource.update = ((updates: Parameters<RegisteredResource['update']>[0]) => {
+    originalUpdate({
+      ...updates,
+      ...(updates.callback ? { callback: wrap(updates.callback) } : {})
+    });
+  }) as RegisteredResource['update'];
+}
+
+/**
+ * Instrument a registered resource template
+ */
+function instrumentRegisteredResourceTemplate(
+  tracker: MCPTracker,
+  name: string,
+  template: RegisteredResourceTemplate
+): void {
+  if (isInstrumented(template.readCallback)) return;
+
+  let templateName = name;
+  const wrap = (callback: AnyCallback) =>
+    wrapCallback(tracker, callback, (args) => ({
+      spanName: `mcp.resource.${templateName}`,
+      operation: { resourceTemplate: template.resourceTemplate.uriTemplate.toString() },
+      attributes: {
+        ...optionalAttribute('mcp.resource_uri', args[0] instanceof URL ? args[0].toString() : undefined),
+        'mcp.resource_name': templateName,
+        'mcp.resource.uri_template': template.resourceTemplate.uriTemplate.toString(),
+        ...optionalAttribute('mcp.resource.title', template.title),
+        ...optionalAttribute('mcp.resource.description', template.metadata?.description),
+        ...optionalAttribute('mcp.resource.mime_type', template.metadata?.mimeType)
+      }
+    }));
+
+  template.readCallback = wrap(template.readCallback) as RegisteredResourceTemplate['readCallback'];
+
+  const originalUpdate = template.update.bind(template);
+  template.update = ((updates: Parameters<RegisteredResourceTemplate['update']>[0]) => {
+    if (typeof updates.name === 'string') {
+      templateName = updates.name;
+    }
+    originalUpdate({
+      ...updates,
+      ...(updates.callback ? { callback: wrap(updates.callback) } : {})
+    });
+  }) as RegisteredResourceTemplate['update'];
+}
+
+/**
+ * Instrument a registered prompt
+ */
+function instrumentRegisteredPrompt(tracker: MCPTracker, name: string, prompt: RegisteredPrompt): void {
+  if (isInstrumented(prompt.callback)) return;
+
+  let promptName = name;
+  const wrap = (callback: AnyCallback) =>
+    wrapCallback(tracker, callback, () => ({
+      spanName: `mcp.prompt.${promptName}`,
+      attributes: {
+        'mcp.prompt_name': promptName,
+        ...optionalAttribute('mcp.prompt.title', prompt.title),
+        ...optionalAttribute('mcp.prompt.description', prompt.description)
+      }
+    }));
+
+  prompt.callback = wrap(prompt.callback) as RegisteredPrompt['callback'];
+
+  const originalUpdate = prompt.update.bind(prompt);
+  prompt.update = ((updates: Parameters<RegisteredPrompt['update']>[0]) => {
+    if (typeof updates.name === 'string') {
+      promptName = updates.name;
+    }
+    originalUpdate({
+      ...updates,
+      ...(updates.callback ? { callback: wrap(updates.callback) as typeof updates.callback } : {})
+    });
+  }) as RegisteredPrompt['update'];
+}
+
+/**
+ * Wrap a registered callback so each invocation runs inside its own span
+ */
+function wrapCallback(
+  tracker: MCPTracker,
+  callback: AnyCallback,
+  describe: (args: unknown[]) => {
+    spanName: string;
+    attributes: Attributes;
+    operation?: Pick<MCPOperationRecord, 'resourceTemplate'>;
+  }
+): AnyCallback {
+  const wrapped = async (...args: unknown[]) => {
+    const { spanName, attributes, operation } = describe(args);
+    if (operation) {
+      tracker.annotateActiveOperation(operation);
+    }
+    const config = tracker.getConfig();
+    const startTime = Date.now();
+
+    const span = tracker.getTracer().startSpan(spanName, {
+      kind: SpanKind.INTERNAL,
+      attributes: {
+        ...(config.projectId ? { 'neonflare.project_id': config.projectId } : {}),
+        ...config.defaultAttributes,
+        ...attributes
+      }
+    });
+
+    try {
+      const result = await otelContext.with(
+        trace.setSpan(otelContext.active(), span),
+        () => callback(...args)
+      );
+
+      const toolResultError = getToolResultError(result);
+      if (toolResultError !== undefined) {
+        span.setAttributes({
+          'mcp.tool.error_kind': 'result',
+          'mcp.error_code': 'TOOL_ERROR',
+          'mcp.error_message': toolResultError
+        });
+        span.setStatus({ code: SpanStatusCode.ERROR, message: toolResultError });
+      } else {
+        span.setStatus({ code: SpanStatusCode.OK });
+      }
+      return result;
+    } catch (error) {
+      span.recordException(error as Error);
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: (error as Error)?.message || 'Callback execution failed'
+      });
+      throw error;
+    } finally {
+      span.setAttribute('mcp.duration_ms', Date.now() - startTime);
+      span.end();
+    }
+  };
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (wrapped as any).__neonflare_wrapped = true;
+  return wrapped;
+}
+
+function isInstrumented(callback: unknown): boolean {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return Boolean(callback && (callback as any).__neonflare_wrapped);
+}
+
+function optionalAttribute(key: string, value: unknown): Attributes {
+  return typeof value === 'string' ? { [key]: value } : {};
+}
+
+/**
+ * Flatten primitive metadata values (annotations, _meta) into prefixed span attributes
+ */
+function prefixedAttributes(prefix: string, values: object | undefined): Attributes {
+  const attributes: Attributes = {};
+  for (const [key, value] of Object.entries(values || {})) {
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      attributes[`${prefix}.${key}`] = value;
+    }
+  }
+  return attributes;
+}
@@ -0,0 +1,118 @@
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { MCPTracker } from '../core/tracker.js';
+
+/**
+ * Notification instrumentation
+ *
+ * Notifications have no response, so they are recorded on existing spans
+ * rather than getting spans of their own: progress becomes an event on the
+ * request span it reports on, cancellation ends the cancelled request's span,
+ * and list_changed / resources/updated become events on the session span.
+ */
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type NotificationHandler = (notification: any) => Promise<void>;
+
+export type NotificationDirection = 'incoming' | 'outgoing';
+
+const SESSION_EVENT_METHODS = new Set([
+  'notifications/tools/list_changed',
+  'notifications/resources/list_changed',
+  'notifications/prompts/list_changed',
+  'notifications/roots/list_changed',
+  'notifications/resources/updated'
+]);
+
+/**
+ * Instrument incoming notification handlers and outgoing notifications of a server
+ */
+export function wrapNotificationHandling(server: Server, tracker: MCPTracker): void {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const internals = server as any;
+  const handlers: Map<string, NotificationHandler> | undefined = internals._notificationHandlers;
+
+  // Handlers installed by the SDK constructors (cancelled, progress, initialized)
+  if (handlers instanceof Map) {
+    for (const [method, handler] of handlers) {
+      if (!isInstrumented(handler)) {
+        handlers.set(method, createInstrumentedNotificationHandler(server, tracker, handler));
+      }
+    }
+  }
+
+  const originalSetNotificationHandler = server.setNotificationHandler.bind(server);
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  server.setNotificationHandler = function(schema: any, handler: any) {
+    originalSetNotificationHandler(schema, handler);
+
+    const method = schema.shape?.method?.value;
+    const registered = method ? handlers?.get(method) : undefined;
+    if (method && registered && !isInstrumented(registered)) {
+      handlers!.set(method, createInstrumentedNotificationHandler(server, tracker, registered));
+    }
+  };
+
+  const originalNotification = server.notification.bind(server);
+  server.notification = async (notification, options) => {
+    recordNotification(tracker, notification, 'outgoing', internals.__neonflare_session_id);
+    return originalNotification(notification, options);
+  };
+}
+
+/**
+ * Record a notification against the span or session it relates to
+ */
+export function recordNotification(
+  tracker: MCPTracker,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  notification: { method: string; params?: any },
+  direction: NotificationDirection,
+  sessionId?: string
+): void {
+  const params = notification.params || {};
+
+  try {
+    switch (notification.method) {
+      case 'notifications/progress':
+        tracker.recordProgress(params.progressToken, params);
+        return;
+      case 'notifications/cancelled':
+        // Outgoing cancellations refer to our own request IDs, not the client's
+        if (direction === 'incoming') {
+          tracker.cancelOperation(params.requestId, params.reason);
+        }
+        return;
+    }
+
+    if (sessionId && SESSION_EVENT_METHODS.has(notification.method)) {
+      tracker.getSessionManager().addSessionEvent(sessionId, notification.method, {
+        'mcp.notification.direction': direction,
+        ...(typeof params.uri === 'string' ? { 'mcp.resource_uri': params.uri } : {})
+      });
+    }
+  } catch (error) {
+    console.warn('[Notification Instrumentation] Error recording notification:', error);
+  }
+}
+
+function createInstrumentedNotificationHandler(
+  server: Server,
+  tracker: MCPTracker,
+  handler: NotificationHandler
+): NotificationHandler {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const wrapped = (notification: any) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    recordNotification(tracker, notification, 'incoming', (server as any).__neonflare_session_id);
+    return handler(notification);
+  };
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (wrapped as any).__neonflare_wrapped = true;
+  return wrapped;
+}
+
+function isInstrumented(handler: unknown): boolean {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return Boolean(handler && (handler as any).__neonflare_wrapped);
+}
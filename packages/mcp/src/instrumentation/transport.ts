@@ -0,0 +1,152 @@
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { MCPTracker } from '../core/tracker.js';
+
+/**
+ * Transport instrumentation
+ *
+ * Works around any SDK `Transport` (stdio, SSE, Streamable HTTP, in-memory).
+ * `send` is wrapped directly; `onmessage`, `onclose` and `onerror` are
+ * replaced with accessors, because the SDK assigns them during `connect()`,
+ * after instrumentation runs. Protocol chains any handler that was already
+ * set, so each message, close and error is only counted once.
+ */
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Handler = (...args: any[]) => void;
+
+const TRANSPORT_TYPES: Array<[RegExp, string]> = [
+  [/^Stdio/, 'stdio'],
+  [/^StreamableHTTP/, 'streamable-http'],
+  [/^SSE/, 'sse'],
+  [/^WebSocket/, 'websocket'],
+  [/^InMemory/, 'in-memory']
+];
+
+/**
+ * Instrument a transport so its traffic feeds the tracker's transport stats
+ */
+export function instrumentTransport<T extends Transport>(transport: T, tracker: MCPTracker): T {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const internals = transport as any;
+  if (internals.__neonflare_wrapped) {
+    return transport;
+  }
+  internals.__neonflare_wrapped = true;
+
+  const stats = tracker.getTransportStats();
+  const transportType = getTransportType(transport);
+  const seenMessages = new WeakSet<object>();
+  const seenErrors = new WeakSet<object>();
+  let openedAt: number | undefined;
+
+  const originalStart = transport.start.bind(transport);
+  transport.start = async () => {
+    openedAt = Date.now();
+    stats.recordConnectionOpened();
+    return originalStart();
+  };
+
+  const originalSend = transport.send.bind(transport);
+  transport.send = async (message, options) => {
+    try {
+      stats.recordSent(measureMessage(message));
+    } catch (error) {
+      console.warn('[Transport Instrumentation] Error recording sent message:', error);
+    }
+    return originalSend(message, options);
+  };
+
+  defineHandler(internals, 'onmessage', (message: JSONRPCMessage) => {
+    if (!message || typeof message !== 'object' || seenMessages.has(message)) return;
+    seenMessages.add(message);
+
+    try {
+      // Only requests carry both an ID and a method; responses have no handler to queue for
+      const requestId = 'method' in message && 'id' in message ? message.id : undefined;
+      stats.recordReceived(measureMessage(message), transportType, requestId);
+    } catch (error) {
+      console.warn('[Transport Instrumentation] Error recording received message:', error);
+    }
+  });
+
+  defineHandler(internals, 'onclose', () => {
+    if (openedAt === undefined) return;
+    stats.recordConnectionClosed(Date.now() - openedAt);
+    openedAt = undefined;
+  });
+
+  defineHandler(internals, 'onerror', (error: Error) => {
+    if (!error || typeof error !== 'object' || seenErrors.has(error)) return;
+    seenErrors.add(error);
+    stats.recordError(error);
+  });
+
+  return transport;
+}
+
+/**
+ * Instrument every transport an SDK `Server` or `Client` connects to
+ */
+export function wrapConnect(
+  protocol: { connect(transport: Transport, ...args: unknown[]): Promise<void> },
+  tracker: MCPTracker
+): void {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const internals = protocol as any;
+  if (internals.connect.__neonflare_wrapped) {
+    return;
+  }
+
+  const originalConnect = protocol.connect.bind(protocol);
+  const wrappedConnect = (transport: Transport, ...args: unknown[]) =>
+    originalConnect(instrumentTransport(transport, tracker), ...args);
+  wrappedConnect.__neonflare_wrapped = true;
+  internals.connect = wrappedConnect;
+}
+
+/**
+ * Determine the transport type from its class name
+ */
+export function getTransportType(transport: Transport): string {
+  const name = transport.constructor?.name || '';
+  for (const [pattern, type] of TRANSPORT_TYPES) {
+    if (pattern.test(name)) {
+      return type;
+    }
+  }
+  return name ? name.replace(/Transport$/, '').toLowerCase() || 'unknown' : 'unknown';
+}
+
+function measureMessage(message: JSONRPCMessage): number {
+  return Buffer.byteLength(JSON.stringify(message), 'utf8');
+}
+
+/**
+ * Replace a handler property with an accessor that records before delegating
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function defineHandler(target: any, property: string, record: Handler): void {
+  let wrapped: Handler | undefined = wrapHandler(target[property], record);
+
+  Object.defineProperty(target, property, {
+    configurable: true,
+    enumerable: true,
+    get: () => wrapped,
+    set: (handler: Handler | undefined) => {
+      wrapped = wrapHandler(handler, record);
+    }
+  });
+}
+
+function wrapHandler(handler: Handler | undefined, record: Handler): Handler | undefined {
+  if (!handler) {
+    return undefined;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return (...args: any[]) => {
+    record(...args);
+    return handler(...args);
+  };
+}
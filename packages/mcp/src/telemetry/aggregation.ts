@@ -0,0 +1,334 @@
+import { MCPEventQueueMetrics, MCPMethodType, MCPMetrics, MCPOperationMetrics, TelemetryEvent, TelemetryEventType } from '../types/index.js';
+import { DDSketch } from '../core/sketch.js';
+
+/**
+ * Per-method, per-tool, per-resource-template and per-prompt request metrics
+ *
+ * `MCPMetricsAggregator` updates counters and duration sketches as events are
+ * recorded, so reading metrics costs the same however many events have been
+ * seen. `mergeMetrics` combines the results of several providers, weighting
+ * averages by count and merging sketches so percentiles stay correct.
+ */
+
+const RATE_WINDOW_SECONDS = 60;
+
+interface OperationAccumulator {
+  count: number;
+  errorCount: number;
+  totalDuration: number;
+  minDuration: number;
+  maxDuration: number;
+  sketch: DDSketch;
+}
+
+/**
+ * The breakdowns of `MCPMetrics`
+ */
+export type MCPBreakdownMetrics = Pick<MCPMetrics, 'methodMetrics' | 'toolMetrics' | 'resourceTemplateMetrics' | 'promptMetrics'>;
+
+/**
+ * Create zeroed operation metrics
+ */
+export function createEmptyOperationMetrics(): MCPOperationMetrics {
+  return { count: 0, errorCount: 0, averageDuration: 0, minDuration: 0, maxDuration: 0 };
+}
+
+/**
+ * Create zeroed method metrics with an entry for every MCP method type
+ */
+export function createEmptyMethodMetrics(): MCPMetrics['methodMetrics'] {
+  const methodMetrics = {} as MCPMetrics['methodMetrics'];
+  for (const method of Object.values(MCPMethodType)) {
+    methodMetrics[method] = createEmptyOperationMetrics();
+  }
+  return methodMetrics;
+}
+
+/**
+ * Create empty breakdowns, with a zeroed entry for every MCP method type
+ */
+export function createEmptyBreakdownMetrics(): MCPBreakdownMetrics {
+  return {
+    methodMetrics: createEmptyMethodMetrics(),
+    toolMetrics: {},
+    resourceTemplateMetrics: {},
+    promptMetrics: {}
+  };
+}
+
+/**
+ * Aggregate completed requests by method, tool name, resource template and prompt name
+ */
+export function aggregateRequestMetrics(events: TelemetryEvent[]): MCPBreakdownMetrics {
+  const aggregator = new MCPMetricsAggregator();
+  events.forEach(event => aggregator.record(event));
+  return aggregator.getBreakdowns();
+}
+
+/**
+ * Merge operation metrics, weighting averages by request count
+ */
+export function mergeOperationMetrics(metrics: MCPOperationMetrics[]): MCPOperationMetrics {
+  const populated = metrics.filter(m => m.count > 0);
+  if (populated.length === 0) {
+    return createEmptyOperationMetrics();
+  }
+
+  const count = populated.reduce((sum, m) => sum + m.count, 0);
+  const merged: MCPOperationMetrics = {
+    count,
+    errorCount: populated.reduce((sum, m) => sum + m.errorCount, 0),
+    averageDuration: populated.reduce((sum, m) => sum + m.averageDuration * m.count, 0) / count,
+    minDuration: Math.min(...populated.map(m => m.minDuration)),
+    maxDuration: Math.max(...populated.map(m => m.maxDuration))
+  };
+
+  const sketches = populated.filter(m => m.sketch).map(m => DDSketch.fromJSON(m.sketch!));
+  if (sketches.length > 0) {
+    try {
+      const sketch = sketches[0];
+      sketches.slice(1).forEach(other => sketch.merge(other));
+      attachSketch(merged, sketch);
+    } catch (error) {
+      console.warn('[Metrics] Could not merge latency sketches:', error);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Set the percentiles and serialized sketch of operation metrics
+ */
+export function attachSketch(metrics: MCPOperationMetrics, sketch: DDSketch): void {
+  metrics.percentiles = sketch.getPercentiles();
+  metrics.sketch = sketch.toJSON();
+}
+
+/**
+ * Merge the metrics of providers that saw different events, such as one per server
+ *
+ * Request counts, active sessions and event queue statistics are summed and
+ * the average duration is weighted by each provider's request count. Metrics
+ * of providers fed the same events must not be merged, as each request would
+ * be counted once per provider.
+ */
+export function mergeMetrics(metrics: MCPMetrics[]): MCPMetrics {
+  const totalRequests = metrics.reduce((sum, m) => sum + m.totalRequests, 0);
+  const transport = metrics.find(m => m.transport)?.transport;
+  const eventQueue = mergeEventQueueMetrics(metrics.map(m => m.eventQueue));
+
+  return {
+    totalRequests,
+    successfulRequests: metrics.reduce((sum, m) => sum + m.successfulRequests, 0),
+    failedRequests: metrics.reduce((sum, m) => sum + m.failedRequests, 0),
+    averageDuration: totalRequests > 0
+      ? metrics.reduce((sum, m) => sum + m.averageDuration * m.totalRequests, 0) / totalRequests
+      : 0,
+    requestsPerSecond: metrics.reduce((sum, m) => sum + m.requestsPerSecond, 0),
+    activeSessions: metrics.reduce((sum, m) => sum + m.activeSessions, 0),
+    ...(transport ? { transport } : {}),
+    ...(eventQueue ? { eventQueue } : {}),
+    methodMetrics: {
+      ...createEmptyMethodMetrics(),
+      ...mergeBreakdown(metrics.map(m => m.methodMetrics))
+    },
+    toolMetrics: mergeBreakdown(metrics.map(m => m.toolMetrics)),
+    resourceTemplateMetrics: mergeBreakdown(metrics.map(m => m.resourceTemplateMetrics)),
+    promptMetrics: mergeBreakdown(metrics.map(m => m.promptMetrics))
+  };
+}
+
+/**
+ * Sum the statistics of several event queues
+ */
+export function mergeEventQueueMetrics(
+  queues: Array<MCPEventQueueMetrics | undefined>
+): MCPEventQueueMetrics | undefined {
+  const present = queues.filter((q): q is MCPEventQueueMetrics => q !== undefined);
+  if (present.length === 0) return undefined;
+
+  return {
+    depth: present.reduce((sum, q) => sum + q.depth, 0),
+    maxSize: present.reduce((sum, q) => sum + q.maxSize, 0),
+    delivered: present.reduce((sum, q) => sum + q.delivered, 0),
+    dropped: present.reduce((sum, q) => sum + q.dropped, 0),
+    inlineFlushes: present.reduce((sum, q) => sum + q.inlineFlushes, 0)
+  };
+}
+
+function mergeBreakdown(breakdowns: Array<Record<string, MCPOperationMetrics> | undefined>): Record<string, MCPOperationMetrics> {
+  const grouped = new Map<string, MCPOperationMetrics[]>();
+  for (const breakdown of breakdowns) {
+    for (const [key, metrics] of Object.entries(breakdown || {})) {
+      grouped.set(key, [...(grouped.get(key) || []), metrics]);
+    }
+  }
+
+  const merged: Record<string, MCPOperationMetrics> = {};
+  for (const [key, metrics] of grouped) {
+    merged[key] = mergeOperationMetrics(metrics);
+  }
+  return merged;
+}
+
+/**
+ * Request metrics aggregated incrementally from recorded events
+ *
+ * Metrics cover every `request_end` event recorded since creation or the last
+ * `reset()`, independent of how many events the caller keeps around.
+ */
+export class MCPMetricsAggregator {
+  private totalRequests = 0;
+  private successfulRequests = 0;
+  private timedRequests = 0;
+  private totalDuration = 0;
+  private rateCounts = new Array<number>(RATE_WINDOW_SECONDS).fill(0);
+  private rateSeconds = new Array<number>(RATE_WINDOW_SECONDS).fill(-1);
+  private methods = new Map<string, OperationAccumulator>();
+  private tools = new Map<string, OperationAccumulator>();
+  private resourceTemplates = new Map<string, OperationAccumulator>();
+  private prompts = new Map<string, OperationAccumulator>();
+
+  /**
+   * Update the metrics with an event; only `request_end` events count
+   */
+  record(event: TelemetryEvent): void {
+    if (event.type !== TelemetryEventType.REQUEST_END) return;
+
+    const { method, toolName, resourceTemplate, promptName } = event.data;
+    const success = Boolean(event.data.success);
+    const duration = typeof event.data.duration === 'number' ? event.data.duration : 0;
+
+    this.totalRequests++;
+    if (success) this.successfulRequests++;
+    if (event.data.duration) {
+      this.timedRequests++;
+      this.totalDuration += duration;
+    }
+    this.recordRate(event.timestamp);
+
+    if (typeof method !== 'string') return;
+
+    addRequest(this.methods, method, duration, success);
+    if (method === MCPMethodType.TOOLS_CALL && typeof toolName === 'string') {
+      addRequest(this.tools, toolName, duration, success);
+    }
+    if (method === MCPMethodType.RESOURCES_READ && typeof resourceTemplate === 'string') {
+      addRequest(this.resourceTemplates, resourceTemplate, duration, success);
+    }
+    if (method === MCPMethodType.PROMPTS_GET && typeof promptName === 'string') {
+      addRequest(this.prompts, promptName, duration, success);
+    }
+  }
+
+  /**
+   * Get the per-method, per-tool, per-resource-template and per-prompt breakdowns
+   */
+  getBreakdowns(): MCPBreakdownMetrics {
+    return {
+      methodMetrics: {
+        ...createEmptyMethodMetrics(),
+        ...toOperationMetrics(this.methods)
+      },
+      toolMetrics: toOperationMetrics(this.tools),
+      resourceTemplateMetrics: toOperationMetrics(this.resourceTemplates),
+      promptMetrics: toOperationMetrics(this.prompts)
+    };
+  }
+
+  /**
+   * Get the aggregated metrics; sessions and transports are not tracked here
+   */
+  getMetrics(now: number = Date.now()): MCPMetrics {
+    return {
+      totalRequests: this.totalRequests,
+      successfulRequests: this.successfulRequests,
+      failedRequests: this.totalRequests - this.successfulRequests,
+      averageDuration: this.timedRequests > 0 ? this.totalDuration / this.timedRequests : 0,
+      requestsPerSecond: this.getRecentRequestCount(now) / RATE_WINDOW_SECONDS,
+      activeSessions: 0,
+      ...this.getBreakdowns()
+    };
+  }
+
+  reset(): void {
+    this.totalRequests = 0;
+    this.successfulRequests = 0;
+    this.timedRequests = 0;
+    this.totalDuration = 0;
+    this.rateCounts.fill(0);
+    this.rateSeconds.fill(-1);
+    this.methods.clear();
+    this.tools.clear();
+    this.resourceTemplates.clear();
+    this.prompts.clear();
+  }
+
+  /**
+   * Count the request in a per-second slot of the rate window
+   */
+  private recordRate(timestamp: number): void {
+    const second = Math.floor(timestamp / 1000);
+    const slot = second % RATE_WINDOW_SECONDS;
+    if (this.rateSeconds[slot] !== second) {
+      this.rateSeconds[slot] = second;
+      this.rateCounts[slot] = 0;
+    }
+    this.rateCounts[slot]++;
+  }
+
+  private getRecentRequestCount(now: number): number {
+    const current = Math.floor(now / 1000);
+    let count = 0;
+    for (let slot = 0; slot < RATE_WINDOW_SECONDS; slot++) {
+      if (current - this.rateSeconds[slot] < RATE_WINDOW_SECONDS) {
+        count += this.rateCounts[slot];
+      }
+    }
+    return count;
+  }
+}
+
+function addRequest(
+  accumulators: Map<string, OperationAccumulator>,
+  key: string,
+  duration: number,
+  success: boolean
+): void {
+  let accumulator = accumulators.get(key);
+  if (!accumulator) {
+    accumulator = {
+      count: 0,
+      errorCount: 0,
+      totalDuration: 0,
+      minDuration: duration,
+      maxDuration: duration,
+      sketch: new DDSketch()
+    };
+    accumulators.set(key, accumulator);
+  }
+
+  accumulator.count++;
+  if (!success) accumulator.errorCount++;
+  accumulator.totalDuration += duration;
+  accumulator.minDuration = Math.min(accumulator.minDuration, duration);
+  accumulator.maxDuration = Math.max(accumulator.maxDuration, duration);
+  accumulator.sketch.add(duration);
+}
+
+function toOperationMetrics(accumulators: Map<string, OperationAccumulator>): Record<string, MCPOperationMetrics> {
+  const result: Record<string, MCPOperationMetrics> = {};
+  for (const [key, accumulator] of accumulators) {
+    const metrics: MCPOperationMetrics = {
+      count: accumulator.count,
+      errorCount: accumulator.errorCount,
+      averageDuration: accumulator.totalDuration / accumulator.count,
+      minDuration: accumulator.minDuration,
+      maxDuration: accumulator.maxDuration
+    };
+    attachSketch(metrics, accumulator.sketch);
+    result[key] = metrics;
+  }
+  return result;
+}
@@ -0,0 +1,127 @@
+/**
+ * Failure handling for exports to remote collectors
+ *
+ * Each export is retried with exponential backoff and jitter. A circuit
+ * breaker counts exports that still failed; after `failureThreshold` in a
+ * row it opens and exports are skipped until `resetTimeout` passes, when a
+ * single trial export decides whether it closes again. Other callers are
+ * refused while the trial is in flight.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface RetryOptions {
+  /** Retries after the first attempt (default: 3) */
+  maxRetries?: number;
+  /** Delay before the first retry in milliseconds, doubled for each further retry (default: 100) */
+  initialDelay?: number;
+  /** Maximum delay between retries in milliseconds (default: 5000) */
+  maxDelay?: number;
+}
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failed exports that open the breaker (default: 5) */
+  failureThreshold?: number;
+  /** Time the breaker stays open before a trial export in milliseconds (default: 30000) */
+  resetTimeout?: number;
+}
+
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_INITIAL_DELAY = 100;
+const DEFAULT_MAX_DELAY = 5000;
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_RESET_TIMEOUT = 30000;
+
+/**
+ * Run `operation`, retrying failures that `isRetryable` accepts with exponential backoff
+ *
+ * Each delay is randomized between half and all of its backoff so that
+ * clients failing together do not retry together.
+ */
+export async function retryWithBackoff<T>(
+  operation: () => Promise<T>,
+  options: RetryOptions = {},
+  isRetryable: (error: unknown) => boolean = () => true
+): Promise<T> {
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const initialDelay = options.initialDelay ?? DEFAULT_INITIAL_DELAY;
+  const maxDelay = options.maxDelay ?? DEFAULT_MAX_DELAY;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= maxRetries || !isRetryable(error)) throw error;
+
+      const backoff = Math.min(maxDelay, initialDelay * 2 ** attempt);
+      await new Promise(resolve => setTimeout(resolve, backoff / 2 + Math.random() * backoff / 2));
+    }
+  }
+}
+
+/**
+ * Tracks consecutive export failures and decides whether to attempt exports
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private trialInFlight = false;
+  private openedAt = 0;
+  private failureThreshold: number;
+  private resetTimeout: number;
+
+  constructor(
+    options: CircuitBreakerOptions = {},
+    private onStateChange?: (state: CircuitState, previous: CircuitState, failures: number) => void
+  ) {
+    this.failureThreshold = options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+    this.resetTimeout = options.resetTimeout ?? DEFAULT_RESET_TIMEOUT;
+  }
+
+  /**
+   * Whether an export should be attempted; moves an open breaker whose
+   * reset timeout has passed to half-open and lets a single trial through
+   */
+  allowRequest(now: number = Date.now()): boolean {
+    if (this.state === 'open' && now - this.openedAt >= this.resetTimeout) {
+      this.transition('half_open');
+    }
+    if (this.state === 'half_open') {
+      if (this.trialInFlight) return false;
+      this.trialInFlight = true;
+      return true;
+    }
+    return this.state === 'closed';
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.trialInFlight = false;
+    if (this.state !== 'closed') {
+      this.transition('closed');
+    }
+  }
+
+  recordFailure(now: number = Date.now()): void {
+    this.failures++;
+    this.trialInFlight = false;
+    if (this.state === 'half_open' || (this.state === 'closed' && this.failures >= this.failureThreshold)) {
+      this.openedAt = now;
+      this.transition('open');
+    }
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  private transition(state: CircuitState): void {
+    const previous = this.state;
+    this.state = state;
+    try {
+      this.onStateChange?.(state, previous, this.failures);
+    } catch (error) {
+      console.warn('[CircuitBreaker] Error in state change listener:', error);
+    }
+  }
+}
@@ -0,0 +1,177 @@
+import { TelemetryEvent, MCPEventQueueMetrics } from '../types/index.js';
+import { RingBuffer } from '../core/ring-buffer.js';
+
+/**
+ * Bounded queue between recording an event and delivering it to providers
+ *
+ * `enqueue` only appends to a ring buffer; a background worker delivers
+ * events in batches once a batch fills or `flushInterval` passes, yielding to
+ * the event loop between batches. A slow provider therefore delays telemetry
+ * rather than the request that recorded it, unless a full queue is set to
+ * flush inline.
+ */
+
+export type OverflowPolicy = 'drop-oldest' | 'drop-newest' | 'flush';
+
+export interface EventQueueOptions {
+  /** Maximum number of queued events (default: 10000) */
+  maxSize?: number;
+  /** Events delivered per batch (default: 100) */
+  batchSize?: number;
+  /** Maximum time an event waits before delivery in milliseconds (default: 1000) */
+  flushInterval?: number;
+  /**
+   * What to do with an event when the queue is full (default: drop-oldest).
+   * `flush` loses nothing but delivers the oldest batch inline, on the recording
+   * caller's path, to make room; that caller then waits for the providers.
+   */
+  overflowPolicy?: OverflowPolicy;
+}
+
+/**
+ * Options of providers and managers that queue recorded events
+ */
+export interface QueuedRecorderOptions {
+  /** Event queue options, or `false` to deliver events synchronously */
+  queue?: EventQueueOptions | false;
+}
+
+export const DEFAULT_EVENT_QUEUE_SIZE = 10000;
+
+const DEFAULT_BATCH_SIZE = 100;
+const DEFAULT_FLUSH_INTERVAL = 1000;
+
+export class EventQueue {
+  private events: RingBuffer<TelemetryEvent>;
+  private batchSize: number;
+  private flushInterval: number;
+  private overflowPolicy: OverflowPolicy;
+  private timer?: ReturnType<typeof setTimeout>;
+  private immediate?: ReturnType<typeof setImmediate>;
+  private closed = false;
+  private delivered = 0;
+  private dropped = 0;
+  private inlineFlushes = 0;
+
+  constructor(
+    private deliver: (events: TelemetryEvent[]) => void,
+    options: EventQueueOptions = {}
+  ) {
+    this.events = new RingBuffer(options.maxSize ?? DEFAULT_EVENT_QUEUE_SIZE);
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.flushInterval = options.flushInterval ?? DEFAULT_FLUSH_INTERVAL;
+    this.overflowPolicy = options.overflowPolicy ?? 'drop-oldest';
+
+    if (!Number.isInteger(this.batchSize) || this.batchSize < 1) {
+      throw new Error('Event queue batch size must be a positive integer');
+    }
+    if (!(this.flushInterval >= 0)) {
+      throw new Error('Event queue flush interval must not be negative');
+    }
+  }
+
+  /**
+   * Queue an event, returning false if it was dropped
+   *
+   * Once the queue is closed, events are delivered immediately.
+   */
+  enqueue(event: TelemetryEvent): boolean {
+    if (this.closed) {
+      this.deliverBatch([event]);
+      return true;
+    }
+
+    if (this.events.size >= this.events.capacity) {
+      if (this.overflowPolicy === 'drop-newest') {
+        this.dropped++;
+        return false;
+      }
+      if (this.overflowPolicy === 'flush') {
+        this.inlineFlushes++;
+        this.deliverBatch(this.events.take(this.batchSize));
+      }
+    }
+
+    // With drop-oldest, a full buffer overwrites its oldest event
+    if (this.events.push(event) !== undefined) {
+      this.dropped++;
+    }
+    this.schedule();
+    return true;
+  }
+
+  /**
+   * Deliver every queued event now
+   */
+  flush(): void {
+    this.cancel();
+    while (this.events.size > 0) {
+      this.deliverBatch(this.events.take(this.batchSize));
+    }
+  }
+
+  /**
+   * Flush and stop the worker
+   */
+  close(): void {
+    this.flush();
+    this.closed = true;
+  }
+
+  /**
+   * Queue depth and delivery counters
+   */
+  getMetrics(): MCPEventQueueMetrics {
+    return {
+      depth: this.events.size,
+      maxSize: this.events.capacity,
+      delivered: this.delivered,
+      dropped: this.dropped,
+      inlineFlushes: this.inlineFlushes
+    };
+  }
+
+  private schedule(): void {
+    if (this.immediate) return;
+
+    if (this.events.size >= this.batchSize) {
+      this.immediate = setImmediate(() => this.work());
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => this.work(), this.flushInterval);
+      // Never keep the process alive just to deliver telemetry; shutdown flushes
+      this.timer.unref?.();
+    }
+  }
+
+  /**
+   * Deliver one batch, then continue on the next turn of the event loop until empty
+   */
+  private work(): void {
+    this.cancel();
+    this.deliverBatch(this.events.take(this.batchSize));
+    if (this.events.size > 0) {
+      this.immediate = setImmediate(() => this.work());
+    }
+  }
+
+  private cancel(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    if (this.immediate) {
+      clearImmediate(this.immediate);
+      this.immediate = undefined;
+    }
+  }
+
+  private deliverBatch(events: TelemetryEvent[]): void {
+    if (events.length === 0) return;
+    try {
+      this.deliver(events);
+    } catch (error) {
+      console.warn('[EventQueue] Error delivering events:', error);
+    }
+    this.delivered += events.length;
+  }
+}
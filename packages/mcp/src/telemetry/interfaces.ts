@@ -1,4 +1,8 @@
 import { TelemetryEvent, MCPMetrics } from '../types/index.js';
+import type { OTLPProtocol, OTLPCompression } from './otlp.js';
+import type { EventQueueOptions } from './event-queue.js';
+import type { CircuitBreakerOptions, RetryOptions } from './circuit-breaker.js';
+import type { SpoolOptions } from './spool.js';
 
 /**
  * Interface for collecting and providing metrics
@@ -90,12 +94,24 @@ export interface TelemetryProviderConfig {
       timeout?: number;
       /** Whether to use secure connection */
       secure?: boolean;
+      /** Wire protocol (default: http/protobuf) */
+      protocol?: OTLPProtocol;
+      /** Payload compression (default: gzip) */
+      compression?: OTLPCompression;
+      /** Retries of each export */
+      retry?: RetryOptions;
+      /** When to stop attempting exports after repeated failures */
+      circuitBreaker?: CircuitBreakerOptions;
+      /** Where batches that could not be exported are kept */
+      spool?: SpoolOptions;
     };
 
     /** Composite provider config */
     composite?: {
       /** Child providers to combine */
       providers?: TelemetryProviderConfig[];
+      /** Event queue options, or `false` to deliver events synchronously */
+      queue?: EventQueueOptions | false;
     };
   };
 }
@@ -132,7 +148,7 @@ export interface TelemetryManager {
   recordEvent(event: TelemetryEvent): void;
 
   /**
-   * Get aggregated metrics from all providers
+   * Get metrics of the events recorded through the manager
    */
   getMetrics(): MCPMetrics;
 
@@ -1,12 +1,14 @@
 import { TelemetryManager, TelemetryProviderConfig } from './interfaces.js';
 import { MetricsProvider, TraceProvider } from './interfaces.js';
-import { TelemetryEvent, MCPMetrics, MCPMethodType } from '../types/index.js';
+import { TelemetryEvent, MCPMetrics } from '../types/index.js';
 import {
   ConsoleTelemetryProvider,
   MemoryTelemetryProvider,
   OTLPTTelemetryProvider,
   CompositeTelemetryProvider
 } from './providers.js';
+import { MCPMetricsAggregator, mergeEventQueueMetrics } from './aggregation.js';
+import { EventQueue, QueuedRecorderOptions } from './event-queue.js';
 
 /**
  * Factory for creating telemetry providers based on configuration
@@ -21,16 +23,13 @@ export class TelemetryProviderFactory {
         return new MemoryTelemetryProvider();
 
       case 'otlp':
-        return new OTLPTTelemetryProvider({
-          endpoint: config.config?.otlp?.endpoint,
-          headers: config.config?.otlp?.headers
-        });
+        return new OTLPTTelemetryProvider(config.config?.otlp);
 
       case 'composite': {
         const providers = (config.config?.composite?.providers || []).map(p =>
           TelemetryProviderFactory.createProvider(p)
         );
-        return new CompositeTelemetryProvider(providers);
+        return new CompositeTelemetryProvider(providers, { queue: config.config?.composite?.queue });
       }
 
       default:
@@ -41,17 +40,25 @@ export class TelemetryProviderFactory {
 
 /**
  * Default telemetry manager implementation
+ *
+ * Recorded events are queued and delivered to the providers in the
+ * background; call `flush()` to deliver them immediately.
  */
 export class DefaultTelemetryManager implements TelemetryManager {
   private providers: (MetricsProvider | TraceProvider)[] = [];
+  private queue?: EventQueue;
+  private aggregator = new MCPMetricsAggregator();
 
-  constructor(providers?: (MetricsProvider | TraceProvider)[]) {
+  constructor(providers?: (MetricsProvider | TraceProvider)[], options: QueuedRecorderOptions = {}) {
     if (providers) {
       this.providers = providers;
     } else {
       // Add default console provider
       this.providers = [new ConsoleTelemetryProvider()];
     }
+    if (options.queue !== false) {
+      this.queue = new EventQueue(events => events.forEach(event => this.deliverEvent(event)), options.queue);
+    }
   }
 
   addProvider(provider: MetricsProvider | TraceProvider): void {
@@ -70,55 +77,43 @@ export class DefaultTelemetryManager implements TelemetryManager {
   }
 
   recordEvent(event: TelemetryEvent): void {
-    this.providers.forEach(provider => {
-      try {
-        provider.recordEvent(event);
-      } catch (error) {
-        console.warn('[TelemetryManager] Error recording event:', error);
-      }
-    });
+    if (this.queue) {
+      this.queue.enqueue(event);
+    } else {
+      this.deliverEvent(event);
+    }
+  }
+
+  /**
+   * Deliver queued events to the providers now
+   */
+  flush(): void {
+    this.queue?.flush();
   }
 
+  /**
+   * Metrics of the events delivered to the providers
+   *
+   * Every provider receives every event, so adding up their metrics would
+   * count each request once per provider; only their queue statistics are
+   * included.
+   */
   getMetrics(): MCPMetrics {
-    const metrics = this.providers
-      .filter((p): p is MetricsProvider => 'getMetrics' in p)
-      .map(p => p.getMetrics());
-
-    if (metrics.length === 0) {
-      return {
-        totalRequests: 0,
-        successfulRequests: 0,
-        failedRequests: 0,
-        averageDuration: 0,
-        requestsPerSecond: 0,
-        activeSessions: 0,
-        methodMetrics: {
-          [MCPMethodType.TOOLS_LIST]: { count: 0, averageDuration: 0, errorCount: 0 },
-          [MCPMethodType.TOOLS_CALL]: { count: 0, averageDuration: 0, errorCount: 0 },
-          [MCPMethodType.RESOURCES_LIST]: { count: 0, averageDuration: 0, errorCount: 0 },
-          [MCPMethodType.RESOURCES_READ]: { count: 0, averageDuration: 0, errorCount: 0 },
-          [MCPMethodType.PROMPTS_LIST]: { count: 0, averageDuration: 0, errorCount: 0 },
-          [MCPMethodType.PROMPTS_GET]: { count: 0, averageDuration: 0, errorCount: 0 },
-          [MCPMethodType.PING]: { count: 0, averageDuration: 0, errorCount: 0 },
-          [MCPMethodType.INITIALIZE]: { count: 0, averageDuration: 0, errorCount: 0 },
-          [MCPMethodType.INITIALIZED]: { count: 0, averageDuration: 0, errorCount: 0 }
-        }
-      };
-    }
+    const eventQueue = mergeEventQueueMetrics([
+      this.queue?.getMetrics(),
+      ...this.providers
+        .filter((p): p is MetricsProvider => 'getMetrics' in p)
+        .map(p => p.getMetrics().eventQueue)
+    ]);
 
-    // Aggregate metrics from all providers
     return {
-      totalRequests: metrics.reduce((sum, m) => sum + m.totalRequests, 0),
-      successfulRequests: metrics.reduce((sum, m) => sum + m.successfulRequests, 0),
-      failedRequests: metrics.reduce((sum, m) => sum + m.failedRequests, 0),
-      averageDuration: metrics.reduce((sum, m) => sum + m.averageDuration, 0) / metrics.length,
-      requestsPerSecond: metrics.reduce((sum, m) => sum + m.requestsPerSecond, 0) / metrics.length,
-      activeSessions: metrics.reduce((sum, m) => sum + m.activeSessions, 0),
-      methodMetrics: metrics[0].methodMetrics // Use first provider's method metrics for now
+      ...this.aggregator.getMetrics(),
+      ...(eventQueue ? { eventQueue } : {})
     };
   }
 
   async exportTraces(): Promise<void> {
+    this.flush();
     const traceProviders = this.providers.filter((p): p is TraceProvider =>
       'exportTraces' in p
     );
@@ -129,17 +124,30 @@ export class DefaultTelemetryManager implements TelemetryManager {
   }
 
   async shutdown(): Promise<void> {
+    this.queue?.close();
     await Promise.all(
       this.providers.map(provider => provider.shutdown?.())
     );
+    this.aggregator.reset();
   }
 
   /**
    * Create a telemetry manager from configuration
    */
-  static fromConfig(config: TelemetryProviderConfig[]): DefaultTelemetryManager {
+  static fromConfig(config: TelemetryProviderConfig[], options: QueuedRecorderOptions = {}): DefaultTelemetryManager {
     const providers = config.map(c => TelemetryProviderFactory.createProvider(c));
-    return new DefaultTelemetryManager(providers);
+    return new DefaultTelemetryManager(providers, options);
+  }
+
+  private deliverEvent(event: TelemetryEvent): void {
+    this.aggregator.record(event);
+    this.providers.forEach(provider => {
+      try {
+        provider.recordEvent(event);
+      } catch (error) {
+        console.warn('[TelemetryManager] Error recording event:', error);
+      }
+    });
   }
 }
 
@@ -0,0 +1,439 @@
+import { createHash, randomBytes } from 'crypto';
+import { gzipSync } from 'zlib';
+import {
+  credentials as grpcCredentials,
+  Client as GrpcClient,
+  Metadata,
+  ServiceError,
+  status as GrpcStatus
+} from '@grpc/grpc-js';
+import { Attributes, HrTime, Link, SpanContext, SpanKind, SpanStatusCode, TraceFlags, isSpanContextValid } from '@opentelemetry/api';
+import type { Resource } from '@opentelemetry/resources';
+import type { ReadableSpan } from '@opentelemetry/sdk-trace-node';
+import {
+  JsonLogsSerializer,
+  JsonTraceSerializer,
+  ProtobufLogsSerializer,
+  ProtobufTraceSerializer
+} from '@opentelemetry/otlp-transformer';
+import { TelemetryEvent, TelemetryEventType } from '../types/index.js';
+import { sanitizeAttributeValue } from '../utils/index.js';
+
+/**
+ * OTLP export of buffered telemetry events
+ *
+ * Every event becomes an OTLP log record, and every completed request
+ * (REQUEST_END) also becomes a span, so collectors without log support still
+ * see the operations. Payloads are encoded with the OpenTelemetry OTLP
+ * serializers and sent over HTTP (JSON or protobuf) or gRPC.
+ */
+
+export type OTLPProtocol = 'http/json' | 'http/protobuf' | 'grpc';
+
+export type OTLPCompression = 'gzip' | 'none';
+
+export interface OTLPExporterOptions {
+  /** Collector endpoint; for HTTP, the `/v1/traces` and `/v1/logs` paths are appended */
+  endpoint: string;
+  /** Wire protocol (default: http/protobuf) */
+  protocol?: OTLPProtocol;
+  /** Headers (HTTP) or metadata (gRPC) sent with each export */
+  headers?: Record<string, string>;
+  /** Export timeout in milliseconds (default: 10000) */
+  timeout?: number;
+  /** Payload compression (default: gzip) */
+  compression?: OTLPCompression;
+  /** Use TLS; endpoints without a scheme default to plaintext */
+  secure?: boolean;
+}
+
+export type OTLPSignal = 'traces' | 'logs';
+
+export const OTLP_SIGNALS: OTLPSignal[] = ['traces', 'logs'];
+
+type ReadableLogRecord = Parameters<typeof ProtobufLogsSerializer.serializeRequest>[0][number];
+
+const DEFAULT_TIMEOUT = 10000;
+
+const INSTRUMENTATION_SCOPE = { name: 'neonflare-mcp' };
+
+// OTLP severity numbers
+const SEVERITY_INFO = 9;
+const SEVERITY_ERROR = 17;
+
+// gRPC codes the OTLP specification lists as retryable
+const RETRYABLE_GRPC_CODES = new Set<number>([
+  GrpcStatus.CANCELLED,
+  GrpcStatus.DEADLINE_EXCEEDED,
+  GrpcStatus.RESOURCE_EXHAUSTED,
+  GrpcStatus.ABORTED,
+  GrpcStatus.OUT_OF_RANGE,
+  GrpcStatus.UNAVAILABLE,
+  GrpcStatus.DATA_LOSS
+]);
+
+const GRPC_PATHS: Record<OTLPSignal, string> = {
+  traces: '/opentelemetry.proto.collector.trace.v1.TraceService/Export',
+  logs: '/opentelemetry.proto.collector.logs.v1.LogsService/Export'
+};
+
+/**
+ * Failure to export some signals of a batch
+ */
+export class OTLPExportError extends Error {
+  constructor(readonly signals: OTLPSignal[], readonly cause: unknown) {
+    super(`OTLP export of ${signals.join(' and ')} failed: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'OTLPExportError';
+  }
+
+  get retryable(): boolean {
+    return isRetryableExportError(this.cause);
+  }
+}
+
+/**
+ * Non-success response from an OTLP/HTTP collector
+ */
+export class OTLPHttpError extends Error {
+  constructor(readonly status: number, signal: OTLPSignal) {
+    super(`OTLP ${signal} export failed with status ${status}`);
+    this.name = 'OTLPHttpError';
+  }
+}
+
+/**
+ * Whether an export may succeed if sent again
+ *
+ * HTTP 408, 429 and 5xx responses, transient gRPC codes, timeouts and network
+ * errors are retryable; any other response means the collector rejected the
+ * data itself.
+ */
+export function isRetryableExportError(error: unknown): boolean {
+  if (error instanceof OTLPExportError) {
+    return isRetryableExportError(error.cause);
+  }
+  if (error instanceof OTLPHttpError) {
+    return error.status === 408 || error.status === 429 || error.status >= 500;
+  }
+  const code = (error as { code?: unknown } | undefined)?.code;
+  if (typeof code === 'number') {
+    return RETRYABLE_GRPC_CODES.has(code);
+  }
+  return true;
+}
+
+/**
+ * Sends telemetry events to an OTLP collector
+ */
+export class OTLPEventExporter {
+  private options: Required<Omit<OTLPExporterOptions, 'secure'>> & { secure?: boolean };
+  private grpcClient?: GrpcClient;
+
+  constructor(options: OTLPExporterOptions, private resource: Resource) {
+    this.options = {
+      protocol: 'http/protobuf',
+      headers: {},
+      timeout: DEFAULT_TIMEOUT,
+      compression: 'gzip',
+      ...options
+    };
+  }
+
+  /**
+   * Export events as log records and completed requests as spans
+   *
+   * Each signal is sent on its own; if any fail, an `OTLPExportError` names
+   * them so that only those are sent again.
+   */
+  async export(events: TelemetryEvent[], signals: OTLPSignal[] = OTLP_SIGNALS): Promise<void> {
+    const results = await Promise.allSettled(signals.map(signal => this.exportSignal(signal, events)));
+    const failed = signals.filter((_, i) => results[i].status === 'rejected');
+    if (failed.length > 0) {
+      const { reason } = results.find((r): r is PromiseRejectedResult => r.status === 'rejected')!;
+      throw new OTLPExportError(failed, reason);
+    }
+  }
+
+  /**
+   * Export one signal of the events: spans of completed requests, or log records of every event
+   */
+  async exportSignal(signal: OTLPSignal, events: TelemetryEvent[]): Promise<void> {
+    const json = this.options.protocol === 'http/json';
+    let payload: Uint8Array | undefined;
+
+    if (signal === 'traces') {
+      const spans = eventsToSpans(events, this.resource);
+      if (spans.length === 0) return;
+      payload = json
+        ? JsonTraceSerializer.serializeRequest(spans)
+        : ProtobufTraceSerializer.serializeRequest(spans);
+    } else {
+      const logRecords = eventsToLogRecords(events, this.resource);
+      if (logRecords.length === 0) return;
+      payload = json
+        ? JsonLogsSerializer.serializeRequest(logRecords)
+        : ProtobufLogsSerializer.serializeRequest(logRecords);
+    }
+
+    if (payload) {
+      await this.send(signal, payload);
+    }
+  }
+
+  /**
+   * Close the gRPC channel, if one was opened
+   */
+  shutdown(): void {
+    this.grpcClient?.close();
+    this.grpcClient = undefined;
+  }
+
+  private send(signal: OTLPSignal, payload: Uint8Array): Promise<void> {
+    return this.options.protocol === 'grpc'
+      ? this.sendGrpc(signal, payload)
+      : this.sendHttp(signal, payload);
+  }
+
+  private async sendHttp(signal: OTLPSignal, payload: Uint8Array): Promise<void> {
+    const gzip = this.options.compression === 'gzip';
+    const response = await fetch(resolveHttpUrl(this.options.endpoint, signal, this.options.secure), {
+      method: 'POST',
+      headers: {
+        ...this.options.headers,
+        'Content-Type': this.options.protocol === 'http/json' ? 'application/json' : 'application/x-protobuf',
+        ...(gzip ? { 'Content-Encoding': 'gzip' } : {})
+      },
+      body: gzip ? gzipSync(payload) : payload,
+      signal: AbortSignal.timeout(this.options.timeout)
+    });
+
+    // Always read the body, or the connection is held until garbage collection;
+    // reading rather than cancelling it lets the connection be reused
+    if (!response.ok) {
+      await response.arrayBuffer().catch(() => undefined);
+      throw new OTLPHttpError(response.status, signal);
+    }
+    await response.arrayBuffer();
+  }
+
+  private sendGrpc(signal: OTLPSignal, payload: Uint8Array): Promise<void> {
+    const client = this.getGrpcClient();
+    const metadata = new Metadata();
+    for (const [key, value] of Object.entries(this.options.headers)) {
+      metadata.set(key, value);
+    }
+
+    return new Promise((resolve, reject) => {
+      client.makeUnaryRequest(
+        GRPC_PATHS[signal],
+        (request: Uint8Array) => Buffer.from(request),
+        (response: Buffer) => response,
+        payload,
+        metadata,
+        { deadline: Date.now() + this.options.timeout },
+        (error: ServiceError | null) => (error ? reject(error) : resolve())
+      );
+    });
+  }
+
+  private getGrpcClient(): GrpcClient {
+    if (!this.grpcClient) {
+      const { address, secure } = resolveGrpcAddress(this.options.endpoint, this.options.secure);
+      this.grpcClient = new GrpcClient(
+        address,
+        secure ? grpcCredentials.createSsl() : grpcCredentials.createInsecure(),
+        // 2 is gzip in gRPC's compression algorithm enum
+        this.options.compression === 'gzip' ? { 'grpc.default_compression_algorithm': 2 } : {}
+      );
+    }
+    return this.grpcClient;
+  }
+}
+
+/**
+ * Build the OTLP/HTTP URL for a signal from a base or signal-specific endpoint
+ */
+export function resolveHttpUrl(endpoint: string, signal: OTLPSignal, secure?: boolean): string {
+  const url = new URL(/^[a-z]+:\/\//i.test(endpoint) ? endpoint : `${secure ? 'https' : 'http'}://${endpoint}`);
+  if (secure) {
+    url.protocol = 'https:';
+  }
+
+  const basePath = url.pathname.replace(/\/v1\/(traces|logs)\/?$/, '').replace(/\/$/, '');
+  url.pathname = `${basePath}/v1/${signal}`;
+  return url.toString();
+}
+
+function resolveGrpcAddress(endpoint: string, secure?: boolean): { address: string; secure: boolean } {
+  const match = endpoint.match(/^([a-z]+):\/\/([^/]+)/i);
+  if (!match) {
+    return { address: endpoint.replace(/\/.*$/, ''), secure: Boolean(secure) };
+  }
+  return { address: match[2], secure: secure ?? match[1].toLowerCase() === 'https' };
+}
+
+/**
+ * Convert completed requests into spans, pairing them with their start events
+ *
+ * When the tracker had a recording tracer, the SDK exports its span too, so
+ * these spans get their own IDs in the same trace, with the start event's
+ * parent as parent and a link to the tracer's span.
+ */
+export function eventsToSpans(events: TelemetryEvent[], resource: Resource): ReadableSpan[] {
+  const starts = new Map<string, TelemetryEvent>();
+  for (const event of events) {
+    if (event.type === TelemetryEventType.REQUEST_START && event.data.operationId) {
+      starts.set(event.data.operationId, event);
+    }
+  }
+
+  return events
+    .filter(event => event.type === TelemetryEventType.REQUEST_END)
+    .map(event => {
+      const start = starts.get(event.data.operationId);
+      const duration = typeof event.data.duration === 'number' ? event.data.duration : 0;
+      const startMs = start?.timestamp ?? event.timestamp - duration;
+      const spanContext = createSpanContext(event) ?? createRandomSpanContext();
+      const tracerSpan = getTracerSpanContext(event);
+      const parentSpanId = start?.spanContext?.parentSpanId;
+      const success = Boolean(event.data.success);
+      const links: Link[] = tracerSpan && tracerSpan.spanId !== parentSpanId ? [{ context: tracerSpan }] : [];
+
+      return {
+        name: `mcp.${event.data.method ?? 'unknown'}`,
+        kind: start?.data.kind === 'client' ? SpanKind.CLIENT : SpanKind.SERVER,
+        spanContext: () => spanContext,
+        ...(parentSpanId
+          ? { parentSpanContext: { traceId: spanContext.traceId, spanId: parentSpanId, traceFlags: TraceFlags.SAMPLED } }
+          : {}),
+        startTime: toHrTime(startMs),
+        endTime: toHrTime(startMs + duration),
+        duration: toHrTime(duration),
+        status: success
+          ? { code: SpanStatusCode.OK }
+          : { code: SpanStatusCode.ERROR, message: event.data.error?.message },
+        attributes: createRequestAttributes(event),
+        links,
+        events: [],
+        ended: true,
+        resource,
+        instrumentationScope: INSTRUMENTATION_SCOPE,
+        droppedAttributesCount: 0,
+        droppedEventsCount: 0,
+        droppedLinksCount: 0
+      };
+    });
+}
+
+/**
+ * Convert every event into a log record correlated with its span
+ */
+export function eventsToLogRecords(events: TelemetryEvent[], resource: Resource): ReadableLogRecord[] {
+  return events.map(event => {
+    const failed = event.type === TelemetryEventType.ERROR
+      || (event.type === TelemetryEventType.REQUEST_END && !event.data.success);
+    const spanContext = createSpanContext(event);
+
+    return {
+      hrTime: toHrTime(event.timestamp),
+      hrTimeObserved: toHrTime(event.timestamp),
+      ...(spanContext ? { spanContext } : {}),
+      severityNumber: failed ? SEVERITY_ERROR : SEVERITY_INFO,
+      severityText: failed ? 'ERROR' : 'INFO',
+      body: event.type,
+      eventName: `neonflare.${event.type}`,
+      attributes: flattenEventData(event.data),
+      resource,
+      instrumentationScope: INSTRUMENTATION_SCOPE,
+      droppedAttributesCount: 0
+    };
+  });
+}
+
+function createRequestAttributes(event: TelemetryEvent): Attributes {
+  const data = event.data;
+  const attributes: Attributes = {
+    'mcp.method': data.method ?? 'unknown',
+    'mcp.operation_id': data.operationId,
+    'mcp.success': Boolean(data.success),
+    'mcp.duration_ms': data.duration ?? 0
+  };
+
+  const optional: Record<string, unknown> = {
+    'mcp.session_id': data.sessionId,
+    'mcp.tool_name': data.toolName,
+    'mcp.resource_uri': data.resourceUri,
+    'mcp.prompt_name': data.promptName,
+    'neonflare.project_id': data.projectId,
+    'mcp.error_code': data.error?.code,
+    'mcp.error_message': data.error?.message
+  };
+  for (const [key, value] of Object.entries(optional)) {
+    if (value !== undefined && value !== null) {
+      attributes[key] = sanitizeAttributeValue(value);
+    }
+  }
+
+  return attributes;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function flattenEventData(data: Record<string, any>): Attributes {
+  const attributes: Attributes = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (value !== undefined && value !== null) {
+      attributes[`neonflare.${key}`] = sanitizeAttributeValue(value);
+    }
+  }
+  return attributes;
+}
+
+/**
+ * Span context of the exported span for an operation
+ *
+ * Derived from the operation ID (and the tracker's span, if valid) rather
+ * than random, so start and end log records exported in different batches
+ * correlate with the same span.
+ */
+function createSpanContext(event: TelemetryEvent): SpanContext | undefined {
+  const tracerSpan = getTracerSpanContext(event);
+  const seed = event.data.operationId ?? tracerSpan?.spanId;
+  if (!seed) return undefined;
+
+  const traceId = tracerSpan?.traceId ?? digest(`trace:${seed}`, 16);
+  return {
+    traceId,
+    spanId: digest(`span:${traceId}:${tracerSpan?.spanId ?? ''}:${seed}`, 8),
+    traceFlags: TraceFlags.SAMPLED
+  };
+}
+
+/**
+ * The tracker's span, when it had a recording tracer or a propagated parent
+ */
+function getTracerSpanContext(event: TelemetryEvent): SpanContext | undefined {
+  if (!event.spanContext) return undefined;
+  const candidate = {
+    traceId: event.spanContext.traceId,
+    spanId: event.spanContext.spanId,
+    traceFlags: TraceFlags.SAMPLED
+  };
+  return isSpanContextValid(candidate) ? candidate : undefined;
+}
+
+function createRandomSpanContext(): SpanContext {
+  return {
+    traceId: randomBytes(16).toString('hex'),
+    spanId: randomBytes(8).toString('hex'),
+    traceFlags: TraceFlags.SAMPLED
+  };
+}
+
+function digest(value: string, bytes: number): string {
+  return createHash('sha256').update(value).digest('hex').slice(0, bytes * 2);
+}
+
+function toHrTime(ms: number): HrTime {
+  const seconds = Math.floor(ms / 1000);
+  return [seconds, Math.round((ms - seconds * 1000) * 1e6)];
+}
@@ -0,0 +1,313 @@
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'http';
+import { isSpanContextValid } from '@opentelemetry/api';
+import { MCPExemplar, MCPMetrics, MCPOperationMetrics, PrometheusConfig } from '../types/index.js';
+import { DURATION_BUCKETS, MCPRequestMeasurement } from '../core/metrics.js';
+import { LATENCY_QUANTILES } from '../core/sketch.js';
+
+/**
+ * Prometheus exposition in the OpenMetrics text format
+ *
+ * The collector keeps monotonic per-method and per-tool counters and latency
+ * histograms fed by the tracker; `render` combines them with a snapshot of
+ * `MCPMetrics` and the error handler's statistics.
+ */
+
+export const OPENMETRICS_CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+export const DEFAULT_PROMETHEUS_PORT = 9464;
+
+export const DEFAULT_PROMETHEUS_PATH = '/metrics';
+
+type ErrorStats = Record<string, { count: number; lastOccurrence: number }>;
+
+interface RequestSeries {
+  labels: Record<string, string>;
+  count: number;
+  sum: number;
+  bucketCounts: number[];
+  exemplars: Array<MCPExemplar | undefined>;
+}
+
+/**
+ * Sources rendered alongside the collector's own series
+ */
+export interface PrometheusSnapshot {
+  metrics: MCPMetrics;
+  errorStats?: ErrorStats;
+}
+
+/**
+ * Aggregates completed requests for Prometheus scraping
+ */
+export class PrometheusCollector {
+  private series = new Map<string, RequestSeries>();
+
+  /**
+   * Record a completed server request
+   */
+  recordRequest(measurement: MCPRequestMeasurement): void {
+    const labels: Record<string, string> = {
+      method: measurement.method,
+      ...(measurement.toolName ? { tool: measurement.toolName } : {}),
+      status: measurement.success ? 'ok' : 'error'
+    };
+    const key = JSON.stringify(labels);
+
+    let series = this.series.get(key);
+    if (!series) {
+      series = {
+        labels,
+        count: 0,
+        sum: 0,
+        bucketCounts: new Array(DURATION_BUCKETS.length + 1).fill(0),
+        exemplars: new Array(DURATION_BUCKETS.length + 1).fill(undefined)
+      };
+      this.series.set(key, series);
+    }
+
+    const seconds = measurement.durationMs / 1000;
+    const index = DURATION_BUCKETS.findIndex(boundary => seconds <= boundary);
+    const bucket = index === -1 ? DURATION_BUCKETS.length : index;
+
+    series.count++;
+    series.sum += seconds;
+    series.bucketCounts[bucket]++;
+
+    if (measurement.spanContext && isSpanContextValid(measurement.spanContext)) {
+      series.exemplars[bucket] = {
+        value: seconds,
+        traceId: measurement.spanContext.traceId,
+        spanId: measurement.spanContext.spanId,
+        timestamp: Date.now(),
+        attributes: labels
+      };
+    }
+  }
+
+  /**
+   * Render all series in the OpenMetrics text format
+   */
+  render(snapshot: PrometheusSnapshot): string {
+    const lines: string[] = [];
+    const allSeries = Array.from(this.series.values());
+
+    lines.push(
+      '# TYPE mcp_server_requests counter',
+      '# HELP mcp_server_requests MCP requests handled by the server.'
+    );
+    for (const series of allSeries) {
+      lines.push(`mcp_server_requests_total${formatLabels(series.labels)} ${series.count}`);
+    }
+
+    lines.push(
+      '# TYPE mcp_server_request_duration_seconds histogram',
+      '# UNIT mcp_server_request_duration_seconds seconds',
+      '# HELP mcp_server_request_duration_seconds Duration of MCP requests handled by the server.'
+    );
+    for (const series of allSeries) {
+      let cumulative = 0;
+      [...DURATION_BUCKETS, Infinity].forEach((boundary, i) => {
+        cumulative += series.bucketCounts[i];
+        const le = boundary === Infinity ? '+Inf' : String(boundary);
+        lines.push(
+          `mcp_server_request_duration_seconds_bucket${formatLabels({ ...series.labels, le })} ${cumulative}`
+            + formatExemplar(series.exemplars[i])
+        );
+      });
+      lines.push(
+        `mcp_server_request_duration_seconds_sum${formatLabels(series.labels)} ${series.sum}`,
+        `mcp_server_request_duration_seconds_count${formatLabels(series.labels)} ${series.count}`
+      );
+    }
+
+    const { metrics } = snapshot;
+    const totals: Array<[string, string, number]> = [
+      ['mcp_requests', 'Requests recorded by the tracker.', metrics.totalRequests],
+      ['mcp_failed_requests', 'Failed requests recorded by the tracker.', metrics.failedRequests]
+    ];
+    for (const [name, help, value] of totals) {
+      lines.push(`# TYPE ${name} counter`, `# HELP ${name} ${help}`, `${name}_total ${value}`);
+    }
+
+    const gauges: Array<[string, string, number]> = [
+      ['mcp_active_sessions', 'Active MCP sessions.', metrics.activeSessions],
+      ['mcp_average_duration_seconds', 'Average request duration.', metrics.averageDuration / 1000],
+      ['mcp_requests_per_second', 'Request rate over the last minute.', metrics.requestsPerSecond]
+    ];
+    for (const [name, help, value] of gauges) {
+      lines.push(`# TYPE ${name} gauge`, `# HELP ${name} ${help}`, `${name} ${formatNumber(value)}`);
+    }
+
+    const methodEntries = Object.entries(metrics.methodMetrics || {}).filter(([, m]) => m.count > 0);
+    if (methodEntries.length > 0) {
+      lines.push('# TYPE mcp_method_requests counter', '# HELP mcp_method_requests Requests per method.');
+      for (const [method, m] of methodEntries) {
+        lines.push(`mcp_method_requests_total${formatLabels({ method })} ${m.count}`);
+      }
+      lines.push('# TYPE mcp_method_errors counter', '# HELP mcp_method_errors Failed requests per method.');
+      for (const [method, m] of methodEntries) {
+        lines.push(`mcp_method_errors_total${formatLabels({ method })} ${m.errorCount}`);
+      }
+    }
+
+    renderSummary(
+      lines,
+      'mcp_method_duration_seconds',
+      'Request duration percentiles per method, from a DDSketch.',
+      'method',
+      metrics.methodMetrics
+    );
+    renderSummary(
+      lines,
+      'mcp_tool_duration_seconds',
+      'Tool call duration percentiles per tool, from a DDSketch.',
+      'tool',
+      metrics.toolMetrics
+    );
+
+    if (metrics.transport) {
+      const transport = metrics.transport;
+      const counters: Array<[string, string, number]> = [
+        ['mcp_transport_messages_received', 'JSON-RPC messages received.', transport.messagesReceived],
+        ['mcp_transport_messages_sent', 'JSON-RPC messages sent.', transport.messagesSent],
+        ['mcp_transport_received_bytes', 'Bytes of JSON-RPC messages received.', transport.bytesReceived],
+        ['mcp_transport_sent_bytes', 'Bytes of JSON-RPC messages sent.', transport.bytesSent],
+        ['mcp_transport_parse_errors', 'Messages that failed to parse.', transport.parseErrors]
+      ];
+      for (const [name, help, value] of counters) {
+        lines.push(`# TYPE ${name} counter`, `# HELP ${name} ${help}`, `${name}_total ${value}`);
+      }
+    }
+
+    if (metrics.eventQueue) {
+      const queue = metrics.eventQueue;
+      lines.push(
+        '# TYPE mcp_event_queue_depth gauge',
+        '# HELP mcp_event_queue_depth Telemetry events waiting to be delivered to providers.',
+        `mcp_event_queue_depth ${queue.depth}`
+      );
+      const counters: Array<[string, string, number]> = [
+        ['mcp_event_queue_delivered', 'Telemetry events delivered to providers.', queue.delivered],
+        ['mcp_event_queue_dropped', 'Telemetry events dropped because the queue was full.', queue.dropped],
+        ['mcp_event_queue_inline_flushes', 'Times a full queue delivered events inline on the recording path.', queue.inlineFlushes]
+      ];
+      for (const [name, help, value] of counters) {
+        lines.push(`# TYPE ${name} counter`, `# HELP ${name} ${help}`, `${name}_total ${value}`);
+      }
+    }
+
+    const errorEntries = Object.entries(snapshot.errorStats || {});
+    if (errorEntries.length > 0) {
+      lines.push('# TYPE mcp_errors counter', '# HELP mcp_errors Errors handled by the MCP error handler.');
+      for (const [type, stats] of errorEntries) {
+        lines.push(`mcp_errors_total${formatLabels({ type })} ${stats.count}`);
+      }
+      lines.push(
+        '# TYPE mcp_error_last_occurrence_seconds gauge',
+        '# HELP mcp_error_last_occurrence_seconds Unix time of the last error of each type.'
+      );
+      for (const [type, stats] of errorEntries) {
+        lines.push(`mcp_error_last_occurrence_seconds${formatLabels({ type })} ${stats.lastOccurrence / 1000}`);
+      }
+    }
+
+    lines.push('# EOF');
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Drop all series
+   */
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+/**
+ * Create a request handler serving the rendered metrics, for mounting in an existing HTTP server
+ *
+ * Requests for paths other than `path` get a 404, so the handler can also be
+ * used as a whole server's request listener.
+ */
+export function createPrometheusHandler(
+  getText: () => string,
+  path: string = DEFAULT_PROMETHEUS_PATH
+): (req: IncomingMessage, res: ServerResponse) => void {
+  return (req, res) => {
+    const requestPath = (req.url || '/').split('?')[0];
+    if (requestPath !== path) {
+      res.writeHead(404, { 'Content-Type': 'text/plain' }).end('Not Found');
+      return;
+    }
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.writeHead(405, { 'Content-Type': 'text/plain', Allow: 'GET, HEAD' }).end('Method Not Allowed');
+      return;
+    }
+
+    try {
+      const body = getText();
+      res.writeHead(200, { 'Content-Type': OPENMETRICS_CONTENT_TYPE });
+      res.end(req.method === 'HEAD' ? undefined : body);
+    } catch (error) {
+      console.warn('[Prometheus] Error rendering metrics:', error);
+      res.writeHead(500, { 'Content-Type': 'text/plain' }).end('Internal Server Error');
+    }
+  };
+}
+
+/**
+ * Start the built-in listener
+ */
+export function startPrometheusServer(getText: () => string, config: PrometheusConfig = {}): HttpServer {
+  const server = createServer(createPrometheusHandler(getText, config.path));
+  server.on('error', error => {
+    console.warn('[Prometheus] Metrics listener failed:', error);
+  });
+  server.listen(config.port ?? DEFAULT_PROMETHEUS_PORT, config.host);
+  // Scraping should never keep the process alive
+  server.unref();
+  return server;
+}
+
+function renderSummary(
+  lines: string[],
+  name: string,
+  help: string,
+  label: string,
+  breakdown: Record<string, MCPOperationMetrics> | undefined
+): void {
+  const entries = Object.entries(breakdown || {}).filter(([, m]) => m.percentiles && m.sketch && m.sketch.count > 0);
+  if (entries.length === 0) return;
+
+  lines.push(`# TYPE ${name} summary`, `# UNIT ${name} seconds`, `# HELP ${name} ${help}`);
+  for (const [key, m] of entries) {
+    for (const [percentile, quantile] of Object.entries(LATENCY_QUANTILES)) {
+      const value = m.percentiles![percentile as keyof typeof LATENCY_QUANTILES] / 1000;
+      lines.push(`${name}${formatLabels({ [label]: key, quantile: String(quantile) })} ${value}`);
+    }
+    lines.push(
+      `${name}_sum${formatLabels({ [label]: key })} ${m.sketch!.sum / 1000}`,
+      `${name}_count${formatLabels({ [label]: key })} ${m.sketch!.count}`
+    );
+  }
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatExemplar(exemplar: MCPExemplar | undefined): string {
+  if (!exemplar) return '';
+  const labels = formatLabels({ trace_id: exemplar.traceId, span_id: exemplar.spanId });
+  return ` # ${labels} ${exemplar.value} ${exemplar.timestamp / 1000}`;
+}
+
+function formatNumber(value: number): string {
+  return Number.isFinite(value) ? String(value) : '0';
+}
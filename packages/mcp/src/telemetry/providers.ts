@@ -1,73 +1,42 @@
 import { MetricsProvider, TraceProvider } from './interfaces.js';
-import { TelemetryEvent, MCPMetrics, MCPMethodType } from '../types/index.js';
+import { TelemetryEvent, TelemetryEventType, MCPMetrics } from '../types/index.js';
+import { createResource } from '../core/sdk.js';
+import {
+  OTLPEventExporter,
+  OTLPExporterOptions,
+  OTLPExportError,
+  OTLPSignal,
+  OTLP_SIGNALS,
+  isRetryableExportError
+} from './otlp.js';
+import { MCPMetricsAggregator, mergeEventQueueMetrics } from './aggregation.js';
+import { EventQueue, QueuedRecorderOptions } from './event-queue.js';
+import { CircuitBreaker, CircuitBreakerOptions, CircuitState, RetryOptions, retryWithBackoff } from './circuit-breaker.js';
+import { ExportSpool, SpoolOptions } from './spool.js';
+import { RingBuffer } from '../core/ring-buffer.js';
+
+export { createEmptyMethodMetrics } from './aggregation.js';
 
 /**
  * Console-based telemetry provider for development and debugging
  */
 export class ConsoleTelemetryProvider implements MetricsProvider, TraceProvider {
-  private events: TelemetryEvent[] = [];
-  private startTime = Date.now();
+  private events = new RingBuffer<TelemetryEvent>(1000);
+  private aggregator = new MCPMetricsAggregator();
 
   recordEvent(event: TelemetryEvent): void {
     this.events.push(event);
+    this.aggregator.record(event);
     console.log(`[MCP Telemetry] ${event.type}:`, event.data);
-
-    // Keep only recent events
-    if (this.events.length > 1000) {
-      this.events = this.events.slice(-500);
-    }
   }
 
   getMetrics(): MCPMetrics {
-    const now = Date.now();
-
-    const totalRequests = this.events.filter(e => e.type === 'request_end').length;
-    const successfulRequests = this.events.filter(e =>
-      e.type === 'request_end' && e.data.success
-    ).length;
-    const failedRequests = totalRequests - successfulRequests;
-
-    const durations = this.events
-      .filter(e => e.type === 'request_end' && e.data.duration)
-      .map(e => e.data.duration);
-
-    const averageDuration = durations.length > 0
-      ? durations.reduce((sum, d) => sum + d, 0) / durations.length
-      : 0;
-
-    // Calculate requests per second (over last minute)
-    const recentEvents = this.events.filter(e =>
-      e.type === 'request_end' &&
-      now - e.timestamp < 60000
-    );
-    const requestsPerSecond = recentEvents.length / 60;
-
-    // Initialize method metrics for all MCP method types
-    const methodMetrics: Record<MCPMethodType, { count: number; averageDuration: number; errorCount: number }> = {
-      [MCPMethodType.TOOLS_LIST]: { count: 0, averageDuration: 0, errorCount: 0 },
-      [MCPMethodType.TOOLS_CALL]: { count: 0, averageDuration: 0, errorCount: 0 },
-      [MCPMethodType.RESOURCES_LIST]: { count: 0, averageDuration: 0, errorCount: 0 },
-      [MCPMethodType.RESOURCES_READ]: { count: 0, averageDuration: 0, errorCount: 0 },
-      [MCPMethodType.PROMPTS_LIST]: { count: 0, averageDuration: 0, errorCount: 0 },
-      [MCPMethodType.PROMPTS_GET]: { count: 0, averageDuration: 0, errorCount: 0 },
-      [MCPMethodType.PING]: { count: 0, averageDuration: 0, errorCount: 0 },
-      [MCPMethodType.INITIALIZE]: { count: 0, averageDuration: 0, errorCount: 0 },
-      [MCPMethodType.INITIALIZED]: { count: 0, averageDuration: 0, errorCount: 0 }
-    };
-
-    return {
-      totalRequests,
-      successfulRequests,
-      failedRequests,
-      averageDuration,
-      requestsPerSecond,
-      activeSessions: 0, // Not tracked in console provider
-      methodMetrics
-    };
+    // Sessions are not tracked in the console provider
+    return this.aggregator.getMetrics();
   }
 
   getEvents(): TelemetryEvent[] {
-    return [...this.events];
+    return this.events.toArray();
   }
 
   exportTraces(): Promise<void> {
@@ -76,8 +45,9 @@ export class ConsoleTelemetryProvider implements MetricsProvider, TraceProvider
   }
 
   shutdown(): Promise<void> {
-    console.log(`[MCP Telemetry] Shutting down. Recorded ${this.events.length} events.`);
-    this.events.length = 0;
+    console.log(`[MCP Telemetry] Shutting down. Recorded ${this.events.size} events.`);
+    this.events.clear();
+    this.aggregator.reset();
     return Promise.resolve();
   }
 }
@@ -86,67 +56,25 @@ export class ConsoleTelemetryProvider implements MetricsProvider, TraceProvider
  * In-memory telemetry provider for testing and development
  */
 export class MemoryTelemetryProvider implements MetricsProvider, TraceProvider {
-  private events: TelemetryEvent[] = [];
-  private maxEvents = 10000;
+  private events: RingBuffer<TelemetryEvent>;
+  private aggregator = new MCPMetricsAggregator();
+
+  constructor(options: { maxEvents?: number } = {}) {
+    // Only recent events are kept; metrics cover every recorded event
+    this.events = new RingBuffer(options.maxEvents ?? 10000);
+  }
 
   recordEvent(event: TelemetryEvent): void {
     this.events.push(event);
-
-    // Keep only recent events to prevent memory leaks
-    if (this.events.length > this.maxEvents) {
-      this.events = this.events.slice(-this.maxEvents);
-    }
+    this.aggregator.record(event);
   }
 
   getMetrics(): MCPMetrics {
-    const totalRequests = this.events.filter(e => e.type === 'request_end').length;
-    const successfulRequests = this.events.filter(e =>
-      e.type === 'request_end' && e.data.success
-    ).length;
-    const failedRequests = totalRequests - successfulRequests;
-
-    const durations = this.events
-      .filter(e => e.type === 'request_end' && e.data.duration)
-      .map(e => e.data.duration);
-
-    const averageDuration = durations.length > 0
-      ? durations.reduce((sum, d) => sum + d, 0) / durations.length
-      : 0;
-
-    const requestsPerSecond = this.calculateRequestsPerSecond();
-
-    return {
-      totalRequests,
-      successfulRequests,
-      failedRequests,
-      averageDuration,
-      requestsPerSecond,
-      activeSessions: 0,
-      methodMetrics: {
-        [MCPMethodType.TOOLS_LIST]: { count: 0, averageDuration: 0, errorCount: 0 },
-        [MCPMethodType.TOOLS_CALL]: { count: 0, averageDuration: 0, errorCount: 0 },
-        [MCPMethodType.RESOURCES_LIST]: { count: 0, averageDuration: 0, errorCount: 0 },
-        [MCPMethodType.RESOURCES_READ]: { count: 0, averageDuration: 0, errorCount: 0 },
-        [MCPMethodType.PROMPTS_LIST]: { count: 0, averageDuration: 0, errorCount: 0 },
-        [MCPMethodType.PROMPTS_GET]: { count: 0, averageDuration: 0, errorCount: 0 },
-        [MCPMethodType.PING]: { count: 0, averageDuration: 0, errorCount: 0 },
-        [MCPMethodType.INITIALIZE]: { count: 0, averageDuration: 0, errorCount: 0 },
-        [MCPMethodType.INITIALIZED]: { count: 0, averageDuration: 0, errorCount: 0 }
-      }
-    };
+    return this.aggregator.getMetrics();
   }
 
   getEvents(): TelemetryEvent[] {
-    return [...this.events];
-  }
-
-  private calculateRequestsPerSecond(): number {
-    const now = Date.now();
-    const recentEvents = this.events.filter(e =>
-      e.type === 'request_end' &&
-      now - e.timestamp < 60000
-    );
-    return recentEvents.length / 60;
+    return this.events.toArray();
   }
 
   exportTraces(): Promise<void> {
@@ -155,7 +83,7 @@ export class MemoryTelemetryProvider implements MetricsProvider, TraceProvider {
   }
 
   shutdown(): Promise<void> {
-    this.events.length = 0;
+    this.clear();
     return Promise.resolve();
   }
 
@@ -163,101 +91,241 @@ export class MemoryTelemetryProvider implements MetricsProvider, TraceProvider {
    * Get events by type
    */
   getEventsByType(type: string): TelemetryEvent[] {
-    return this.events.filter(e => e.type === type);
+    return this.events.toArray().filter(e => e.type === type);
   }
 
   /**
    * Get events within time range
    */
   getEventsInRange(startTime: number, endTime: number): TelemetryEvent[] {
-    return this.events.filter(e => e.timestamp >= startTime && e.timestamp <= endTime);
+    return this.events.toArray().filter(e => e.timestamp >= startTime && e.timestamp <= endTime);
   }
 
   /**
-   * Clear all events
+   * Clear all events and reset the metrics
    */
   clear(): void {
-    this.events.length = 0;
+    this.events.clear();
+    this.aggregator.reset();
   }
 }
 
+/**
+ * Options for the OTLP telemetry provider
+ */
+export interface OTLPProviderOptions extends Partial<OTLPExporterOptions> {
+  /** Service name for the exported resource (default: mcp-server) */
+  serviceName?: string;
+  /** Service version for the exported resource */
+  serviceVersion?: string;
+  /** Maximum number of events buffered between exports; the oldest are dropped (default: 2048) */
+  maxQueueSize?: number;
+  /** Retries of each export */
+  retry?: RetryOptions;
+  /** When to stop attempting exports after repeated failures */
+  circuitBreaker?: CircuitBreakerOptions;
+  /** Where batches that could not be exported are kept; without a spool they are dropped */
+  spool?: SpoolOptions;
+}
+
 /**
  * OTLP telemetry provider for production trace export
+ *
+ * Events are buffered until `exportTraces()` (or `shutdown()`) sends them to
+ * the collector as log records, with completed requests also sent as spans.
+ * Failed exports are retried with backoff, and once the circuit breaker
+ * opens, batches go straight to the spool until a trial export succeeds and
+ * the spool is replayed. Batches the collector rejects outright (such as
+ * HTTP 400) are dropped rather than retried or spooled.
  */
 export class OTLPTTelemetryProvider implements TraceProvider {
   private otlpEndpoint?: string;
-  private headers?: Record<string, string>;
-
-  constructor(config?: { endpoint?: string; headers?: Record<string, string> }) {
+  private exporter?: OTLPEventExporter;
+  private events: RingBuffer<TelemetryEvent>;
+  private aggregator = new MCPMetricsAggregator();
+  private retry?: RetryOptions;
+  private breaker: CircuitBreaker;
+  private spool?: ExportSpool;
+  // Batches may be left over from a previous process, so check the spool once
+  private spoolPending: boolean;
+  private exporting: Promise<void> = Promise.resolve();
+
+  constructor(config?: OTLPProviderOptions) {
     this.otlpEndpoint = config?.endpoint;
-    this.headers = config?.headers;
+    this.events = new RingBuffer(config?.maxQueueSize ?? 2048);
+    this.retry = config?.retry;
+    this.breaker = new CircuitBreaker(config?.circuitBreaker, (state, previousState, consecutiveFailures) =>
+      this.recordEvent({
+        type: TelemetryEventType.CIRCUIT_STATE_CHANGE,
+        timestamp: Date.now(),
+        data: { exporter: 'otlp', endpoint: this.otlpEndpoint, state, previousState, consecutiveFailures }
+      })
+    );
+    this.spool = config?.spool ? new ExportSpool(config.spool) : undefined;
+    this.spoolPending = Boolean(this.spool);
+
+    if (config?.endpoint) {
+      const resource = createResource({
+        serviceName: config.serviceName ?? 'mcp-server',
+        serviceVersion: config.serviceVersion
+      });
+      this.exporter = new OTLPEventExporter({ ...config, endpoint: config.endpoint }, resource);
+    }
   }
 
   recordEvent(event: TelemetryEvent): void {
-    // OTLP provider focuses on trace export, not event recording
-    console.log(`[OTLP] Event recorded: ${event.type}`);
+    this.events.push(event);
+    this.aggregator.record(event);
   }
 
   getMetrics(): MCPMetrics {
-    // OTLP provider doesn't collect metrics
-    return {
-      totalRequests: 0,
-      successfulRequests: 0,
-      failedRequests: 0,
-      averageDuration: 0,
-      requestsPerSecond: 0,
-      activeSessions: 0,
-      methodMetrics: {
-        [MCPMethodType.TOOLS_LIST]: { count: 0, averageDuration: 0, errorCount: 0 },
-        [MCPMethodType.TOOLS_CALL]: { count: 0, averageDuration: 0, errorCount: 0 },
-        [MCPMethodType.RESOURCES_LIST]: { count: 0, averageDuration: 0, errorCount: 0 },
-        [MCPMethodType.RESOURCES_READ]: { count: 0, averageDuration: 0, errorCount: 0 },
-        [MCPMethodType.PROMPTS_LIST]: { count: 0, averageDuration: 0, errorCount: 0 },
-        [MCPMethodType.PROMPTS_GET]: { count: 0, averageDuration: 0, errorCount: 0 },
-        [MCPMethodType.PING]: { count: 0, averageDuration: 0, errorCount: 0 },
-        [MCPMethodType.INITIALIZE]: { count: 0, averageDuration: 0, errorCount: 0 },
-        [MCPMethodType.INITIALIZED]: { count: 0, averageDuration: 0, errorCount: 0 }
-      }
-    };
+    // Counts every recorded event, including those already exported
+    return this.aggregator.getMetrics();
   }
 
   getEvents(): TelemetryEvent[] {
-    return [];
+    return this.events.toArray();
   }
 
-  async exportTraces(): Promise<void> {
-    if (!this.otlpEndpoint) {
+  getCircuitState(): CircuitState {
+    return this.breaker.getState();
+  }
+
+  /**
+   * Export buffered events, replaying spooled batches first
+   *
+   * Exports run one at a time; a call made while another is in flight waits
+   * for it. Rejects if the collector rejected the batch, or if the export
+   * failed and the batch could not be spooled.
+   */
+  exportTraces(): Promise<void> {
+    if (!this.exporter) {
       console.warn('[OTLP] No endpoint configured for trace export');
+      return Promise.resolve();
+    }
+
+    const result = this.exporting.then(() => this.exportBatch());
+    this.exporting = result.catch(() => undefined);
+    return result;
+  }
+
+  private async exportBatch(): Promise<void> {
+    const batch = this.events.drain();
+    if (batch.length === 0 && !this.spoolPending) return;
+
+    if (!this.breaker.allowRequest()) {
+      await this.spoolBatch(batch, OTLP_SIGNALS, new Error(`Circuit breaker open for ${this.otlpEndpoint}`));
       return;
     }
 
+    let replayed = false;
     try {
-      // In a real implementation, this would export traces to OTLP
-      console.log(`[OTLP] Exporting traces to ${this.otlpEndpoint}`);
+      if (this.spool && this.spoolPending) {
+        await this.spool.replay((events, signal) =>
+          this.exportWithRetry(events, signal ? [signal as OTLPSignal] : OTLP_SIGNALS).catch(error => {
+            // Rejected batches were already dropped; move on to the next one
+            if (isRetryableExportError(error)) throw error;
+          })
+        );
+        this.spoolPending = false;
+      }
+      replayed = true;
+      if (batch.length > 0) {
+        await this.exportWithRetry(batch);
+      }
+      this.breaker.recordSuccess();
+    } catch (error) {
+      if (!isRetryableExportError(error)) {
+        // The collector is reachable but rejected the batch
+        this.breaker.recordSuccess();
+        throw error;
+      }
+      this.breaker.recordFailure();
+      console.error(`[OTLP] Failed to export traces to ${this.otlpEndpoint}:`, error);
+      // A failed replay leaves the whole batch unsent
+      const unsent = replayed && error instanceof OTLPExportError ? error.signals : OTLP_SIGNALS;
+      await this.spoolBatch(batch, unsent, error);
+    }
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.exporter && this.events.size > 0) {
+      try {
+        await this.exportTraces();
+      } catch {
+        // Already logged; shutdown must not fail because the collector is down
+      }
+    }
 
-      // Simulate OTLP export
-      await new Promise(resolve => setTimeout(resolve, 100));
+    this.exporter?.shutdown();
+    this.events.clear();
+    this.aggregator.reset();
+  }
 
-    } catch (error) {
-      console.error('[OTLP] Failed to export traces:', error);
-      throw error;
+  /**
+   * Export each signal with its own retries, so a failure of one never resends the other
+   *
+   * Signals the collector rejected are dropped; the error names the signals
+   * that may still succeed, or only rejected ones if none may.
+   */
+  private async exportWithRetry(events: TelemetryEvent[], signals: OTLPSignal[] = OTLP_SIGNALS): Promise<void> {
+    const failures: OTLPExportError[] = [];
+    const rejections: OTLPExportError[] = [];
+    for (const signal of signals) {
+      try {
+        await retryWithBackoff(() => this.exporter!.export(events, [signal]), this.retry, isRetryableExportError);
+      } catch (error) {
+        const exportError = error as OTLPExportError;
+        if (exportError.retryable) {
+          failures.push(exportError);
+        } else {
+          console.error(`[OTLP] Dropping ${events.length} events rejected by ${this.otlpEndpoint}:`, exportError);
+          rejections.push(exportError);
+        }
+      }
+    }
+
+    const thrown = failures.length > 0 ? failures : rejections;
+    if (thrown.length > 0) {
+      throw new OTLPExportError(thrown.flatMap(f => f.signals), thrown[0].cause);
     }
   }
 
-  shutdown(): Promise<void> {
-    console.log('[OTLP] Provider shutdown');
-    return Promise.resolve();
+  /**
+   * Keep the signals of a batch that were not exported, rethrowing `error` if there is no spool
+   */
+  private async spoolBatch(batch: TelemetryEvent[], signals: OTLPSignal[], error: unknown): Promise<void> {
+    if (!this.spool) throw error;
+    if (batch.length === 0) return;
+
+    try {
+      for (const signal of signals) {
+        await this.spool.write(batch, signal);
+      }
+      this.spoolPending = true;
+    } catch (spoolError) {
+      console.warn('[OTLP] Could not spool events:', spoolError);
+      throw error;
+    }
   }
 }
 
 /**
  * Composite telemetry provider that combines multiple providers
+ *
+ * Recorded events are queued and delivered to the providers in the
+ * background; call `flush()` to deliver them immediately.
  */
 export class CompositeTelemetryProvider implements MetricsProvider, TraceProvider {
   private providers: (MetricsProvider | TraceProvider)[] = [];
+  private queue?: EventQueue;
+  private aggregator = new MCPMetricsAggregator();
 
-  constructor(providers: (MetricsProvider | TraceProvider)[] = []) {
+  constructor(providers: (MetricsProvider | TraceProvider)[] = [], options: QueuedRecorderOptions = {}) {
     this.providers = providers;
+    if (options.queue !== false) {
+      this.queue = new EventQueue(events => events.forEach(event => this.deliverEvent(event)), options.queue);
+    }
   }
 
   addProvider(provider: MetricsProvider | TraceProvider): void {
@@ -272,65 +340,38 @@ export class CompositeTelemetryProvider implements MetricsProvider, TraceProvide
   }
 
   recordEvent(event: TelemetryEvent): void {
-    this.providers.forEach(provider => {
-      try {
-        provider.recordEvent(event);
-      } catch (error) {
-        console.warn('[Composite] Error in provider:', error);
-      }
-    });
+    if (this.queue) {
+      this.queue.enqueue(event);
+    } else {
+      this.deliverEvent(event);
+    }
   }
 
-  getMetrics(): MCPMetrics {
-    const metrics = this.providers
-      .filter((p): p is MetricsProvider => 'getMetrics' in p)
-      .map(p => p.getMetrics());
-
-    if (metrics.length === 0) {
-      const methodMetrics: Record<MCPMethodType, { count: number; averageDuration: number; errorCount: number }> = {
-        [MCPMethodType.TOOLS_LIST]: { count: 0, averageDuration: 0, errorCount: 0 },
-        [MCPMethodType.TOOLS_CALL]: { count: 0, averageDuration: 0, errorCount: 0 },
-        [MCPMethodType.RESOURCES_LIST]: { count: 0, averageDuration: 0, errorCount: 0 },
-        [MCPMethodType.RESOURCES_READ]: { count: 0, averageDuration: 0, errorCount: 0 },
-        [MCPMethodType.PROMPTS_LIST]: { count: 0, averageDuration: 0, errorCount: 0 },
-        [MCPMethodType.PROMPTS_GET]: { count: 0, averageDuration: 0, errorCount: 0 },
-        [MCPMethodType.PING]: { count: 0, averageDuration: 0, errorCount: 0 },
-        [MCPMethodType.INITIALIZE]: { count: 0, averageDuration: 0, errorCount: 0 },
-        [MCPMethodType.INITIALIZED]: { count: 0, averageDuration: 0, errorCount: 0 }
-      };
-
-      return {
-        totalRequests: 0,
-        successfulRequests: 0,
-        failedRequests: 0,
-        averageDuration: 0,
-        requestsPerSecond: 0,
-        activeSessions: 0,
-        methodMetrics
-      };
-    }
+  /**
+   * Deliver queued events to the providers now
+   */
+  flush(): void {
+    this.queue?.flush();
+  }
 
-    // Aggregate metrics from all providers
-    const methodMetrics: Record<MCPMethodType, { count: number; averageDuration: number; errorCount: number }> = {
-      [MCPMethodType.TOOLS_LIST]: { count: 0, averageDuration: 0, errorCount: 0 },
-      [MCPMethodType.TOOLS_CALL]: { count: 0, averageDuration: 0, errorCount: 0 },
-      [MCPMethodType.RESOURCES_LIST]: { count: 0, averageDuration: 0, errorCount: 0 },
-      [MCPMethodType.RESOURCES_READ]: { count: 0, averageDuration: 0, errorCount: 0 },
-      [MCPMethodType.PROMPTS_LIST]: { count: 0, averageDuration: 0, errorCount: 0 },
-      [MCPMethodType.PROMPTS_GET]: { count: 0, averageDuration: 0, errorCount: 0 },
-      [MCPMethodType.PING]: { count: 0, averageDuration: 0, errorCount: 0 },
-      [MCPMethodType.INITIALIZE]: { count: 0, averageDuration: 0, errorCount: 0 },
-      [MCPMethodType.INITIALIZED]: { count: 0, averageDuration: 0, errorCount: 0 }
-    };
+  /**
+   * Metrics of the events delivered to the providers
+   *
+   * Every provider receives every event, so adding up their metrics would
+   * count each request once per provider; only their queue statistics are
+   * included.
+   */
+  getMetrics(): MCPMetrics {
+    const eventQueue = mergeEventQueueMetrics([
+      this.queue?.getMetrics(),
+      ...this.providers
+        .filter((p): p is MetricsProvider => 'getMetrics' in p)
+        .map(p => p.getMetrics().eventQueue)
+    ]);
 
     return {
-      totalRequests: metrics.reduce((sum, m) => sum + m.totalRequests, 0),
-      successfulRequests: metrics.reduce((sum, m) => sum + m.successfulRequests, 0),
-      failedRequests: metrics.reduce((sum, m) => sum + m.failedRequests, 0),
-      averageDuration: metrics.reduce((sum, m) => sum + m.averageDuration, 0) / metrics.length,
-      requestsPerSecond: metrics.reduce((sum, m) => sum + m.requestsPerSecond, 0) / metrics.length,
-      activeSessions: metrics.reduce((sum, m) => sum + m.activeSessions, 0),
-      methodMetrics
+      ...this.aggregator.getMetrics(),
+      ...(eventQueue ? { eventQueue } : {})
     };
   }
 
@@ -339,19 +380,14 @@ export class CompositeTelemetryProvider implements MetricsProvider, TraceProvide
       .filter((p): p is MetricsProvider => 'getEvents' in p)
       .flatMap(p => p.getEvents());
 
-    // Remove duplicates and sort by timestamp
-    const uniqueEvents = allEvents
-      .filter((event, index, self) =>
-        index === self.findIndex(e =>
-          e.timestamp === event.timestamp && e.type === event.type
-        )
-      )
-      .sort((a, b) => a.timestamp - b.timestamp);
+    // The same event object is recorded by every provider; keep one of each
+    const uniqueEvents = Array.from(new Set(allEvents));
 
-    return uniqueEvents;
+    return uniqueEvents.sort((a, b) => a.timestamp - b.timestamp);
   }
 
   async exportTraces(): Promise<void> {
+    this.flush();
     const traceProviders = this.providers.filter((p): p is TraceProvider =>
       'exportTraces' in p
     );
@@ -362,8 +398,21 @@ export class CompositeTelemetryProvider implements MetricsProvider, TraceProvide
   }
 
   async shutdown(): Promise<void> {
+    this.queue?.close();
     await Promise.all(
       this.providers.map(provider => provider.shutdown?.())
     );
+    this.aggregator.reset();
+  }
+
+  private deliverEvent(event: TelemetryEvent): void {
+    this.aggregator.record(event);
+    this.providers.forEach(provider => {
+      try {
+        provider.recordEvent(event);
+      } catch (error) {
+        console.warn('[Composite] Error in provider:', error);
+      }
+    });
   }
 }
\ No newline at end of file
@@ -0,0 +1,104 @@
+import { mkdir, readdir, readFile, stat, unlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { TelemetryEvent } from '../types/index.js';
+
+/**
+ * On-disk spool of event batches that could not be exported
+ *
+ * Each batch is one JSON file, optionally tagged with the one signal still
+ * to be sent, whose name sorts by the time it was spooled,
+ * so batches are replayed in the order they were written, including those
+ * left behind by a previous process. When the spool grows past `maxBytes`,
+ * the oldest batches are deleted.
+ */
+
+export interface SpoolOptions {
+  /** Directory for spooled batches; created if missing */
+  directory: string;
+  /** Maximum total size of spooled batches in bytes (default: 50 MiB) */
+  maxBytes?: number;
+}
+
+const DEFAULT_MAX_BYTES = 50 * 1024 * 1024;
+
+const SPOOL_FILE = /^\d+-\d+\.json$/;
+
+export class ExportSpool {
+  private directory: string;
+  private maxBytes: number;
+  private sequence = 0;
+
+  constructor(options: SpoolOptions) {
+    this.directory = options.directory;
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+  }
+
+  /**
+   * Write a batch, then delete the oldest batches if the spool is over its size cap
+   */
+  async write(events: TelemetryEvent[], signal?: string): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const name = `${String(Date.now()).padStart(15, '0')}-${String(this.sequence++ % 1e6).padStart(6, '0')}.json`;
+    await writeFile(join(this.directory, name), JSON.stringify({ signal, events }));
+    await this.enforceSizeCap();
+  }
+
+  /**
+   * Send spooled batches oldest first, deleting each once sent
+   *
+   * Stops at the first batch that fails to send, leaving it and later
+   * batches in the spool, and rethrows the error.
+   */
+  async replay(send: (events: TelemetryEvent[], signal?: string) => Promise<void>): Promise<number> {
+    let replayed = 0;
+    for (const name of await this.list()) {
+      const path = join(this.directory, name);
+      let batch: { signal?: string; events: TelemetryEvent[] };
+      try {
+        batch = JSON.parse(await readFile(path, 'utf-8'));
+      } catch (error) {
+        console.warn(`[Spool] Discarding unreadable batch ${path}:`, error);
+        await unlink(path).catch(() => undefined);
+        continue;
+      }
+
+      await send(batch.events, batch.signal);
+      await unlink(path);
+      replayed++;
+    }
+    return replayed;
+  }
+
+  /**
+   * Number of spooled batches
+   */
+  async size(): Promise<number> {
+    return (await this.list()).length;
+  }
+
+  private async list(): Promise<string[]> {
+    try {
+      return (await readdir(this.directory)).filter(name => SPOOL_FILE.test(name)).sort();
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  private async enforceSizeCap(): Promise<void> {
+    const names = await this.list();
+    const sizes = await Promise.all(names.map(name => stat(join(this.directory, name)).then(s => s.size)));
+    let total = sizes.reduce((sum, size) => sum + size, 0);
+
+    let dropped = 0;
+    // Always keep the newest batch, even if it alone exceeds the cap
+    for (let i = 0; i < names.length - 1 && total > this.maxBytes; i++) {
+      await unlink(join(this.directory, names[i]));
+      total -= sizes[i];
+      dropped++;
+    }
+    if (dropped > 0) {
+      console.warn(`[Spool] Size cap of ${this.maxBytes} bytes reached; dropped ${dropped} oldest batches`);
+    }
+  }
+}
@@ -1,5 +1,7 @@
-import { Span, Tracer } from '@opentelemetry/api';
+import { Context, Meter, Span, Tracer } from '@opentelemetry/api';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { SpanProcessor } from '@opentelemetry/sdk-trace-node';
+import type { MetricReader } from '@opentelemetry/sdk-metrics';
 
 /**
  * Rotel-specific configuration options
@@ -11,10 +13,54 @@ export interface RotelConfig {
   autoInstrument?: boolean;
   /** Specific instrumentations to enable */
   instrumentations?: string[];
-  /** Custom rotel configuration */
+  /** Where Rotel exports to (default: `otlpEndpoint` and `otlpHeaders`) */
+  exporter?: RotelExporterConfig;
+  /** Local OTLP gRPC receiver the tracer exports to (default: localhost:4317) */
+  receiverEndpoint?: string;
+  /** Attempts to start the agent before giving up (default: 3) */
+  maxStartAttempts?: number;
+  /**
+   * How often to check that the agent's receiver still accepts connections,
+   * restarting the agent if not, in milliseconds (default: 5000; 0 disables)
+   */
+  healthCheckInterval?: number;
+  /** Custom rotel configuration, passed to the agent as-is */
   config?: Record<string, unknown>;
 }
 
+/**
+ * Upstream exporter settings passed through to the Rotel agent
+ */
+export interface RotelExporterConfig {
+  /** Upstream OTLP endpoint */
+  endpoint?: string;
+  /** Upstream protocol (default: grpc) */
+  protocol?: 'grpc' | 'http';
+  /** Headers sent with every export */
+  headers?: Record<string, string>;
+}
+
+/**
+ * A field of the structured intent object injected in structured mode
+ */
+export interface ContextIntentField {
+  /** Field name, also used as the span attribute suffix */
+  name: string;
+  /** JSON Schema type of the field (default: 'string') */
+  type?: 'string' | 'number' | 'boolean';
+  /** Description shown to the AI assistant */
+  description?: string;
+  /** Whether the field is required within the intent object */
+  required?: boolean;
+  /** Allowed values for string fields */
+  enum?: string[];
+}
+
+/**
+ * Parsed structured intent, keyed by field name
+ */
+export type ContextIntent = Record<string, string | number | boolean>;
+
 /**
  * Context injection configuration
  */
@@ -27,8 +73,165 @@ export interface ContextInjectionConfig {
   required?: boolean;
   /** Custom parameter name (default: 'context') */
   parameterName?: string;
+  /** Inject a free-text string or a structured intent object (default: 'string') */
+  mode?: 'string' | 'structured';
+  /** Fields of the structured intent object (default: intent, goal, expected_outcome, confidence, previous_step) */
+  structuredFields?: ContextIntentField[];
+  /** Minimum context length; shorter context is reported as insufficient */
+  minLength?: number;
+  /** Custom validation rule; returning false reports the context as insufficient */
+  validate?: (context: string, intent?: ContextIntent) => boolean;
+  /** Per-tool overrides keyed by tool name or glob pattern (e.g. 'delete_*') */
+  tools?: Record<string, ContextInjectionPolicy>;
+}
+
+/**
+ * Context injection settings that can be overridden for individual tools
+ */
+export type ContextInjectionPolicy = Omit<ContextInjectionConfig, 'parameterName' | 'tools'>;
+
+/**
+ * Quality of the context provided with a tool call
+ */
+export type ContextQuality = 'missing' | 'insufficient' | 'sufficient';
+
+/**
+ * OpenTelemetry SDK bootstrap configuration
+ */
+export interface SdkConfig {
+  /** Build a NodeTracerProvider with exporters and a sampler from this config (default: false) */
+  enabled?: boolean;
+  /**
+   * Register the provider as the global tracer provider and propagator, unless
+   * a global provider is already registered (default: true)
+   */
+  registerGlobal?: boolean;
+  /** Additional span processors, e.g. for exporters not configurable here */
+  spanProcessors?: SpanProcessor[];
 }
 
+/**
+ * OpenTelemetry metrics configuration, used when `metricsEnabled` is set
+ */
+export interface MetricsConfig {
+  /** Readers to export through; a MeterProvider is built when any are given */
+  readers?: MetricReader[];
+  /** Meter to record with instead of building a MeterProvider */
+  meter?: Meter;
+  /**
+   * Keep exemplars linking duration measurements to trace IDs, served by the
+   * Prometheus endpoint only; metric readers never receive them (default: true)
+   */
+  exemplars?: boolean;
+  /** Export request durations as a base-2 exponential histogram when a MeterProvider is built (default: false) */
+  exponentialHistogram?: boolean;
+}
+
+/**
+ * Prometheus scrape endpoint configuration
+ */
+export interface PrometheusConfig {
+  /** Collect per-method and per-tool series for scraping (default: false) */
+  enabled?: boolean;
+  /** Start the built-in HTTP listener; disable to mount the handler in your own server (default: true) */
+  listen?: boolean;
+  /** Port of the built-in listener (default: 9464) */
+  port?: number;
+  /** Host of the built-in listener (default: all interfaces) */
+  host?: string;
+  /** Path the metrics are served on (default: /metrics) */
+  path?: string;
+}
+
+/**
+ * A sample measurement linked to the trace it was recorded in
+ */
+export interface MCPExemplar {
+  /** Measured value */
+  value: number;
+  /** Trace the measurement was recorded in */
+  traceId: string;
+  /** Span the measurement was recorded in */
+  spanId: string;
+  /** Time of the measurement in milliseconds */
+  timestamp: number;
+  /** Attributes of the measurement */
+  attributes: Record<string, string>;
+}
+
+/**
+ * Session tracking configuration
+ */
+export interface SessionConfig {
+  /** Whether to track sessions (default: true) */
+  enabled?: boolean;
+  /** End a session after this many milliseconds without requests (default: 30 minutes, 0 disables) */
+  idleTimeout?: number;
+}
+
+/**
+ * Client details reported in the initialize request
+ */
+export interface MCPClientInfo {
+  /** Client name as reported by the client */
+  name: string;
+  /** Client version as reported by the client */
+  version: string;
+}
+
+/**
+ * Identity of the client on the other end of a session
+ */
+export interface MCPClientIdentity {
+  /** Stable client identifier (default: the normalized client name) */
+  clientId: string;
+  /** Normalized client name, e.g. 'claude-desktop' or 'cursor' for known clients */
+  name: string;
+  /** Client name exactly as reported */
+  rawName?: string;
+  /** Client version */
+  version?: string;
+  /** Capabilities declared by the client */
+  capabilities?: Record<string, unknown>;
+}
+
+/**
+ * Custom client identification; returned fields override the built-in identification
+ */
+export type ClientIdentifier = (
+  clientInfo: MCPClientInfo | undefined,
+  capabilities: Record<string, unknown> | undefined
+) => Partial<MCPClientIdentity> | undefined;
+
+/**
+ * State of an MCP session, from initialize until the transport closes or it idles out
+ */
+export interface MCPSessionInfo {
+  /** Session ID (the transport session ID when the transport provides one) */
+  sessionId: string;
+  /** Client name and version from the initialize request */
+  clientInfo?: MCPClientInfo;
+  /** Identified client */
+  client?: MCPClientIdentity;
+  /** Negotiated protocol version */
+  protocolVersion?: string;
+  /** Capabilities declared by the client */
+  capabilities?: Record<string, unknown>;
+  /** Timestamp when the session started */
+  startTime: number;
+  /** Timestamp of the last request in the session */
+  lastActivity: number;
+  /** Number of requests completed in the session */
+  requestCount: number;
+  /** Number of failed requests in the session */
+  errorCount: number;
+}
+
+/**
+ * Why a session ended
+ */
+export type SessionEndReason = 'transport_closed' | 'idle_timeout' | 'replaced' | 'shutdown';
+
 /**
  * Configuration options for MCP server instrumentation
  */
@@ -53,7 +256,7 @@ export interface MCPInstrumentationConfig {
   otlpEndpoint?: string;
   /** Headers for OTLP export */
   otlpHeaders?: Record<string, string>;
-  /** Whether to export traces to console (development mode) */
+  /** Whether to print traces (and metrics) to stderr (development mode) */
   consoleExport?: boolean;
   /** Request timeout in milliseconds */
   requestTimeout?: number;
@@ -65,6 +268,16 @@ export interface MCPInstrumentationConfig {
   rotel?: RotelConfig;
   /** Context injection configuration for capturing AI intent */
   contextInjection?: ContextInjectionConfig;
+  /** OpenTelemetry metrics configuration */
+  metrics?: MetricsConfig;
+  /** Prometheus scrape endpoint configuration */
+  prometheus?: PrometheusConfig;
+  /** OpenTelemetry SDK bootstrap; when disabled, spans go to the globally registered provider */
+  sdk?: SdkConfig;
+  /** Session lifecycle tracking configuration */
+  session?: SessionConfig;
+  /** Custom client identification, applied when a session starts */
+  identifyClient?: ClientIdentifier;
 }
 
 /**
@@ -84,6 +297,40 @@ export interface MCPOperationContext {
   startTime: number;
   /** Parent span context for trace correlation */
   parentSpan?: Span;
+  /** Parent context (including baggage) propagated with the request */
+  parentContext?: Context;
+}
+
+/**
+ * Per-operation record kept by the tracker from context creation until the span ends
+ */
+export interface MCPOperationRecord {
+  /** Operation ID the record belongs to */
+  operationId: string;
+  /** MCP method being executed */
+  method: string;
+  /** JSON-RPC request ID, if known */
+  requestId?: string;
+  /** Tool name (for tools/call) */
+  toolName?: string;
+  /** Resource URI (for resources/read) */
+  resourceUri?: string;
+  /** Prompt name (for prompts/get) */
+  promptName?: string;
+  /** URI template of the registered resource that served the read (for resources/read) */
+  resourceTemplate?: string;
+  /** Method-specific attributes taken from the request params */
+  attributes?: Record<string, string | number | boolean>;
+  /** Progress token from the request's `_meta`, used to match progress notifications */
+  progressToken?: string | number;
+  /** Whether the operation is handled by this process or sent to a peer */
+  kind?: 'client' | 'server';
+  /** Normalized name of the client the operation came from */
+  clientName?: string;
+  /** Session the operation belongs to */
+  sessionId?: string;
+  /** Timestamp when operation started */
+  startTime: number;
 }
 
 /**
@@ -98,7 +345,18 @@ export enum MCPMethodType {
   PROMPTS_GET = 'prompts/get',
   PING = 'ping',
   INITIALIZE = 'initialize',
-  INITIALIZED = 'initialized'
+  INITIALIZED = 'initialized',
+  RESOURCES_TEMPLATES_LIST = 'resources/templates/list',
+  RESOURCES_SUBSCRIBE = 'resources/subscribe',
+  RESOURCES_UNSUBSCRIBE = 'resources/unsubscribe',
+  COMPLETION_COMPLETE = 'completion/complete',
+  LOGGING_SET_LEVEL = 'logging/setLevel',
+  /** Server-to-client request */
+  SAMPLING_CREATE_MESSAGE = 'sampling/createMessage',
+  /** Server-to-client request */
+  ELICITATION_CREATE = 'elicitation/create',
+  /** Server-to-client request */
+  ROOTS_LIST = 'roots/list'
 }
 
 /**
@@ -165,10 +423,36 @@ export interface MCPSpanAttributes extends Record<string, string | number | bool
   'mcp.prompts_count'?: number;
   /** Tool name (for tools/call) */
   'mcp.tool_name'?: string;
+  /** How a failed tools/call reported its error: an `isError` result or a thrown exception */
+  'mcp.tool.error_kind'?: 'result' | 'exception';
   /** Resource URI (for resources/read) */
   'mcp.resource_uri'?: string;
   /** Prompt name (for prompts/get) */
   'mcp.prompt_name'?: string;
+  /** Number of resource templates available (for resources/templates/list) */
+  'mcp.resource_templates_count'?: number;
+  /** Completion reference type, ref/prompt or ref/resource (for completion/complete) */
+  'mcp.completion.ref_type'?: string;
+  /** Prompt name or resource template URI being completed (for completion/complete) */
+  'mcp.completion.ref'?: string;
+  /** Argument being completed (for completion/complete) */
+  'mcp.completion.argument'?: string;
+  /** Number of completion values returned (for completion/complete) */
+  'mcp.completion.values_count'?: number;
+  /** Requested log level (for logging/setLevel) */
+  'mcp.logging.level'?: string;
+  /** Number of messages sent for sampling (for sampling/createMessage) */
+  'mcp.sampling.messages_count'?: number;
+  /** Requested maximum tokens (for sampling/createMessage) */
+  'mcp.sampling.max_tokens'?: number;
+  /** Model that produced the sampled message (for sampling/createMessage) */
+  'mcp.sampling.model'?: string;
+  /** Why sampling stopped (for sampling/createMessage) */
+  'mcp.sampling.stop_reason'?: string;
+  /** User response, accept, decline or cancel (for elicitation/create) */
+  'mcp.elicitation.action'?: string;
+  /** Number of roots returned (for roots/list) */
+  'mcp.roots_count'?: number;
 }
 
 /**
@@ -187,12 +471,111 @@ export interface MCPMetrics {
   requestsPerSecond: number;
   /** Active sessions count */
   activeSessions: number;
+  /** Transport-level statistics, when transports are instrumented */
+  transport?: MCPTransportMetrics;
+  /** Event queue statistics, when events are queued before reaching providers */
+  eventQueue?: MCPEventQueueMetrics;
   /** Method-specific metrics */
-  methodMetrics: Record<MCPMethodType, {
-    count: number;
-    averageDuration: number;
-    errorCount: number;
-  }>;
+  methodMetrics: Record<MCPMethodType, MCPOperationMetrics>;
+  /** Per-tool metrics for tools/call, keyed by tool name */
+  toolMetrics: Record<string, MCPOperationMetrics>;
+  /** Per-resource metrics for resources/read, keyed by URI template (or URI of a fixed resource) */
+  resourceTemplateMetrics: Record<string, MCPOperationMetrics>;
+  /** Per-prompt metrics for prompts/get, keyed by prompt name */
+  promptMetrics: Record<string, MCPOperationMetrics>;
+}
+
+/**
+ * Request statistics for one method, tool, resource template or prompt
+ */
+export interface MCPOperationMetrics {
+  /** Completed requests */
+  count: number;
+  /** Failed requests */
+  errorCount: number;
+  /** Average duration in milliseconds */
+  averageDuration: number;
+  /** Shortest duration in milliseconds (0 when there are no requests) */
+  minDuration: number;
+  /** Longest duration in milliseconds */
+  maxDuration: number;
+  /** Duration percentiles in milliseconds, from `sketch` */
+  percentiles?: MCPLatencyPercentiles;
+  /** Mergeable duration sketch the percentiles are computed from */
+  sketch?: MCPLatencySketch;
+}
+
+/**
+ * Latency percentiles in milliseconds
+ */
+export interface MCPLatencyPercentiles {
+  p50: number;
+  p90: number;
+  p95: number;
+  p99: number;
+  p999: number;
+}
+
+/**
+ * Serialized DDSketch of durations in milliseconds
+ */
+export interface MCPLatencySketch {
+  /** Relative accuracy guaranteed for every quantile */
+  relativeAccuracy: number;
+  /** Number of values added */
+  count: number;
+  /** Sum of the values added */
+  sum: number;
+  /** Smallest value added */
+  min: number;
+  /** Largest value added */
+  max: number;
+  /** Values too small to index, counted as zero */
+  zeroCount: number;
+  /** Counts by logarithmic bucket index */
+  bins: Record<string, number>;
+}
+
+/**
+ * Transport-level statistics across all instrumented transports
+ */
+export interface MCPTransportMetrics {
+  /** JSON-RPC messages received */
+  messagesReceived: number;
+  /** JSON-RPC messages sent */
+  messagesSent: number;
+  /** Serialized size of received messages in bytes */
+  bytesReceived: number;
+  /** Serialized size of sent messages in bytes */
+  bytesSent: number;
+  /** Messages that could not be parsed or validated */
+  parseErrors: number;
+  /** Other transport errors */
+  errors: number;
+  /** Currently open connections */
+  activeConnections: number;
+  /** Connections opened since startup */
+  totalConnections: number;
+  /** Average lifetime of closed connections in milliseconds */
+  averageConnectionDuration: number;
+  /** Average time requests spent queued between receipt and handler start in milliseconds */
+  averageQueueTime: number;
+}
+
+/**
+ * Statistics of the queue between recording events and delivering them to providers
+ */
+export interface MCPEventQueueMetrics {
+  /** Events waiting to be delivered */
+  depth: number;
+  /** Maximum number of queued events */
+  maxSize: number;
+  /** Events delivered to providers */
+  delivered: number;
+  /** Events dropped because the queue was full */
+  dropped: number;
+  /** Times a full queue delivered a batch inline on the recording caller's path */
+  inlineFlushes: number;
 }
 
 /**
@@ -204,7 +587,8 @@ export enum TelemetryEventType {
   ERROR = 'error',
   SESSION_START = 'session_start',
   SESSION_END = 'session_end',
-  METRIC_UPDATE = 'metric_update'
+  METRIC_UPDATE = 'metric_update',
+  CIRCUIT_STATE_CHANGE = 'circuit_state_change'
 }
 
 /**
@@ -222,6 +606,8 @@ export interface TelemetryEvent {
   spanContext?: {
     traceId: string;
     spanId: string;
+    /** Span ID of the parent span, on request_start events with a parent */
+    parentSpanId?: string;
   };
 }
 
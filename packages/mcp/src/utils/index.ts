@@ -235,6 +235,46 @@ export function sanitizeConnectionString(connectionString: string): string {
   }
 }
 
+/**
+ * Redact credentials and secrets from free-form text such as error messages
+ */
+export function redactSensitiveText(text: string): string {
+  const redacted = text
+    // Credentials embedded in URLs
+    .replace(/(\w+:\/\/)[^\s:@/]+:[^\s@/]+@/g, '$1***:***@')
+    .replace(/\b(bearer|basic)\s+[A-Za-z0-9._~+/=-]+/gi, '$1 ***')
+    .replace(
+      /\b(api[_-]?key|access[_-]?token|refresh[_-]?token|token|secret|password|passwd|pwd|authorization)(["']?\s*[:=]\s*["']?)(?!(?:bearer|basic)\s)[^\s"'&,;]+/gi,
+      '$1$2***'
+    )
+    // Well-known key formats (OpenAI/Anthropic, GitHub, AWS, Slack)
+    .replace(/\b(sk-[A-Za-z0-9_-]{16,}|gh[pousr]_[A-Za-z0-9]{20,}|AKIA[0-9A-Z]{16}|xox[abprs]-[A-Za-z0-9-]{10,})\b/g, '***');
+
+  return sanitizeAttributeValue(redacted) as string;
+}
+
+/**
+ * Get the error text of a tool result that reports failure with `isError: true`
+ *
+ * Returns undefined for successful results. The text content items are
+ * joined and redacted; results without text get a generic message.
+ */
+export function getToolResultError(result: unknown): string | undefined {
+  if (!result || typeof result !== 'object' || (result as { isError?: unknown }).isError !== true) {
+    return undefined;
+  }
+
+  const content = (result as { content?: unknown }).content;
+  const text = Array.isArray(content)
+    ? content
+      .filter(item => item && item.type === 'text' && typeof item.text === 'string')
+      .map(item => item.text as string)
+      .join('\n')
+    : '';
+
+  return text ? redactSensitiveText(text) : 'Tool returned an error result';
+}
+
 /**
  * Create business logic attributes
  */
@@ -0,0 +1,65 @@
+import { bench, describe } from 'vitest';
+import { MemoryTelemetryProvider, CompositeTelemetryProvider } from '../../src/index.js';
+import { TelemetryEvent, TelemetryEventType } from '../../src/types/index.js';
+
+/**
+ * Metric reads should cost the same however many events a provider holds;
+ * compare the ops/sec of each size within a group.
+ */
+
+const SIZES = [1_000, 10_000, 100_000];
+
+function createEvents(count: number): TelemetryEvent[] {
+  const now = Date.now();
+  return Array.from({ length: count }, (_, i) => ({
+    type: i % 2 === 0 ? TelemetryEventType.REQUEST_START : TelemetryEventType.REQUEST_END,
+    timestamp: now - (count - i),
+    data: {
+      method: 'tools/call',
+      toolName: `tool-${i % 20}`,
+      success: i % 10 !== 0,
+      duration: (i % 500) + 1
+    }
+  }));
+}
+
+function createProvider(count: number): MemoryTelemetryProvider {
+  const provider = new MemoryTelemetryProvider({ maxEvents: count });
+  createEvents(count).forEach(event => provider.recordEvent(event));
+  return provider;
+}
+
+describe('MemoryTelemetryProvider.getMetrics', () => {
+  for (const size of SIZES) {
+    const provider = createProvider(size);
+    bench(`${size} events`, () => {
+      provider.getMetrics();
+    });
+  }
+});
+
+describe('CompositeTelemetryProvider.getMetrics', () => {
+  for (const size of SIZES) {
+    const composite = new CompositeTelemetryProvider(
+      [new MemoryTelemetryProvider({ maxEvents: size }), new MemoryTelemetryProvider({ maxEvents: size })],
+      { queue: false }
+    );
+    createEvents(size).forEach(event => composite.recordEvent(event));
+    bench(`${size} events`, () => {
+      composite.getMetrics();
+    });
+  }
+});
+
+describe('CompositeTelemetryProvider.getEvents', () => {
+  for (const size of SIZES) {
+    const events = createEvents(size);
+    const first = new MemoryTelemetryProvider({ maxEvents: size });
+    const second = new MemoryTelemetryProvider({ maxEvents: size });
+    const composite = new CompositeTelemetryProvider([first, second], { queue: false });
+    events.forEach(event => composite.recordEvent(event));
+    bench(`${size} shared events`, () => {
+      composite.getEvents();
+    });
+  }
+});
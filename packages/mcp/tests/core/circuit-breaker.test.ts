@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { CircuitBreaker, retryWithBackoff } from '../../src/telemetry/circuit-breaker.js';
+
+describe('CircuitBreaker', () => {
+  it('should let a single trial through once half-open', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 100 });
+    breaker.recordFailure(0);
+    expect(breaker.allowRequest(50)).toBe(false);
+
+    expect(breaker.allowRequest(100)).toBe(true);
+    expect(breaker.getState()).toBe('half_open');
+    expect(breaker.allowRequest(101)).toBe(false);
+
+    breaker.recordFailure(102);
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.allowRequest(202)).toBe(true);
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.allowRequest(203)).toBe(true);
+    expect(breaker.allowRequest(204)).toBe(true);
+  });
+});
+
+describe('retryWithBackoff', () => {
+  it('should not retry errors that are not retryable', async () => {
+    let attempts = 0;
+    const fail = async () => {
+      attempts++;
+      throw new Error(attempts === 1 ? 'transient' : 'permanent');
+    };
+
+    await expect(retryWithBackoff(fail, { maxRetries: 5, initialDelay: 1 }, error =>
+      (error as Error).message === 'transient'
+    )).rejects.toThrow('permanent');
+    expect(attempts).toBe(2);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { EventQueue } from '../../src/telemetry/event-queue.js';
+import { MemoryTelemetryProvider, CompositeTelemetryProvider } from '../../src/telemetry/providers.js';
+import { DefaultTelemetryManager } from '../../src/telemetry/manager.js';
+import { PrometheusCollector } from '../../src/telemetry/prometheus.js';
+import { TelemetryEvent, TelemetryEventType } from '../../src/types/index.js';
+
+const requestEnd = (n: number): TelemetryEvent => ({
+  type: TelemetryEventType.REQUEST_END,
+  timestamp: Date.now(),
+  data: { method: 'tools/call', toolName: 'search', success: true, duration: n }
+});
+
+const durations = (events: TelemetryEvent[]) => events.map(e => e.data.duration);
+
+describe('EventQueue', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should deliver in batches once a batch fills and after the flush interval', async () => {
+    vi.useFakeTimers();
+    const batches: TelemetryEvent[][] = [];
+    const queue = new EventQueue(events => batches.push(events), { batchSize: 2, flushInterval: 500 });
+
+    queue.enqueue(requestEnd(1));
+    await vi.advanceTimersByTimeAsync(100);
+    expect(batches).toHaveLength(0);
+
+    queue.enqueue(requestEnd(2));
+    queue.enqueue(requestEnd(3));
+    // The worker yields to the event loop between batches
+    await vi.runAllTimersAsync();
+    expect(batches.map(durations)).toEqual([[1, 2], [3]]);
+    expect(queue.getMetrics()).toMatchObject({ depth: 0, delivered: 3 });
+
+    queue.enqueue(requestEnd(4));
+    await vi.advanceTimersByTimeAsync(499);
+    expect(batches).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(batches.map(durations)).toEqual([[1, 2], [3], [4]]);
+  });
+
+  it('should apply the overflow policy when full', () => {
+    const delivered: TelemetryEvent[] = [];
+    const create = (overflowPolicy: 'drop-oldest' | 'drop-newest' | 'flush') =>
+      new EventQueue(events => delivered.push(...events), { maxSize: 3, batchSize: 2, overflowPolicy });
+
+    const dropOldest = create('drop-oldest');
+    [1, 2, 3, 4, 5].forEach(n => dropOldest.enqueue(requestEnd(n)));
+    dropOldest.flush();
+    expect(durations(delivered.splice(0))).toEqual([3, 4, 5]);
+    expect(dropOldest.getMetrics()).toMatchObject({ dropped: 2, delivered: 3 });
+
+    const dropNewest = create('drop-newest');
+    expect([1, 2, 3, 4, 5].map(n => dropNewest.enqueue(requestEnd(n)))).toEqual([true, true, true, false, false]);
+    dropNewest.close();
+    expect(durations(delivered.splice(0))).toEqual([1, 2, 3]);
+    expect(dropNewest.getMetrics().dropped).toBe(2);
+
+    const flush = create('flush');
+    [1, 2, 3, 4].forEach(n => flush.enqueue(requestEnd(n)));
+    expect(durations(delivered)).toEqual([1, 2]);
+    expect(flush.getMetrics()).toMatchObject({ depth: 2, dropped: 0, inlineFlushes: 1 });
+    flush.close();
+    expect(durations(delivered)).toEqual([1, 2, 3, 4]);
+  });
+});
+
+describe('Queued telemetry managers', () => {
+  it('should keep providers off the recording path and report queue statistics', async () => {
+    const memory = new MemoryTelemetryProvider();
+    const failing = new MemoryTelemetryProvider();
+    vi.spyOn(failing, 'recordEvent').mockImplementation(() => {
+      throw new Error('provider down');
+    });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const manager = new DefaultTelemetryManager([memory, failing], { queue: { batchSize: 10 } });
+
+    for (let n = 1; n <= 25; n++) {
+      manager.recordEvent(requestEnd(n));
+    }
+    expect(failing.recordEvent).not.toHaveBeenCalled();
+    expect(manager.getMetrics().eventQueue).toMatchObject({ depth: 25, maxSize: 10000, delivered: 0 });
+
+    await new Promise(resolve => setImmediate(resolve));
+    expect(memory.getEvents()).toHaveLength(10);
+
+    manager.flush();
+    expect(memory.getMetrics().totalRequests).toBe(25);
+    expect(failing.recordEvent).toHaveBeenCalledTimes(25);
+    expect(manager.getMetrics().eventQueue).toMatchObject({ depth: 0, delivered: 25 });
+
+    const text = new PrometheusCollector().render({ metrics: manager.getMetrics() });
+    expect(text).toContain('mcp_event_queue_depth 0');
+    expect(text).toContain('mcp_event_queue_delivered_total 25');
+    await manager.shutdown();
+  });
+
+  it('should deliver synchronously when the queue is disabled and flush on shutdown', async () => {
+    const direct = new MemoryTelemetryProvider();
+    new CompositeTelemetryProvider([direct], { queue: false }).recordEvent(requestEnd(1));
+    expect(direct.getEvents()).toHaveLength(1);
+
+    const queued = new MemoryTelemetryProvider();
+    const composite = new CompositeTelemetryProvider([queued]);
+    composite.recordEvent(requestEnd(1));
+    expect(queued.getEvents()).toHaveLength(0);
+
+    const shutdown = vi.spyOn(queued, 'shutdown');
+    const events = vi.spyOn(queued, 'recordEvent');
+    await composite.shutdown();
+    expect(events).toHaveBeenCalledTimes(1);
+    expect(shutdown).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { RingBuffer } from '../../src/core/ring-buffer.js';
+import { MemoryTelemetryProvider, CompositeTelemetryProvider } from '../../src/telemetry/providers.js';
+import { TelemetryEventType } from '../../src/types/index.js';
+
+describe('RingBuffer', () => {
+  it('should overwrite the oldest items once full', () => {
+    const buffer = new RingBuffer<number>(3);
+    expect([1, 2, 3].map(n => buffer.push(n))).toEqual([undefined, undefined, undefined]);
+    expect(buffer.push(4)).toBe(1);
+    expect(buffer.toArray()).toEqual([2, 3, 4]);
+
+    expect(buffer.drain()).toEqual([2, 3, 4]);
+    expect(buffer.size).toBe(0);
+    expect(() => new RingBuffer(0)).toThrow();
+  });
+});
+
+describe('Incremental metrics', () => {
+  const requestEnd = (duration: number, success = true) => ({
+    type: TelemetryEventType.REQUEST_END,
+    timestamp: Date.now(),
+    data: { method: 'tools/call', toolName: 'search', success, duration }
+  });
+
+  it('should keep counting requests whose events were evicted', () => {
+    const provider = new MemoryTelemetryProvider({ maxEvents: 10 });
+    for (let i = 1; i <= 100; i++) {
+      provider.recordEvent(requestEnd(i, i % 10 !== 0));
+    }
+
+    const metrics = provider.getMetrics();
+    expect(provider.getEvents()).toHaveLength(10);
+    expect(metrics.totalRequests).toBe(100);
+    expect(metrics.failedRequests).toBe(10);
+    expect(metrics.averageDuration).toBe(50.5);
+    expect(metrics.toolMetrics.search).toMatchObject({ count: 100, minDuration: 1, maxDuration: 100 });
+
+    provider.clear();
+    expect(provider.getMetrics().totalRequests).toBe(0);
+  });
+
+  it('should return each event once from a composite of providers sharing it', () => {
+    const composite = new CompositeTelemetryProvider([new MemoryTelemetryProvider(), new MemoryTelemetryProvider()]);
+    composite.recordEvent(requestEnd(5));
+    composite.recordEvent(requestEnd(7));
+    composite.flush();
+
+    expect(composite.getEvents()).toHaveLength(2);
+    expect(composite.getMetrics().totalRequests).toBe(2);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { DDSketch } from '../../src/core/sketch.js';
+import { MCPTracker } from '../../src/core/tracker.js';
+import { PerformanceMonitor } from '../../src/core/performance.js';
+import { mergeOperationMetrics, aggregateRequestMetrics } from '../../src/telemetry/aggregation.js';
+import { TelemetryEventType } from '../../src/types/index.js';
+
+function exactQuantile(sorted: number[], q: number): number {
+  return sorted[Math.floor(q * (sorted.length - 1))];
+}
+
+describe('DDSketch', () => {
+  const values = Array.from({ length: 10000 }, (_, i) => Math.exp((i % 997) / 100) + i / 10);
+  const sorted = [...values].sort((a, b) => a - b);
+
+  it('should keep every quantile within the relative accuracy', () => {
+    const sketch = new DDSketch(0.01);
+    values.forEach(v => sketch.add(v));
+
+    for (const q of [0.5, 0.9, 0.95, 0.99, 0.999]) {
+      const expected = exactQuantile(sorted, q);
+      expect(Math.abs(sketch.getValueAtQuantile(q) - expected) / expected).toBeLessThanOrEqual(0.01);
+    }
+    expect(sketch.getCount()).toBe(values.length);
+  });
+
+  it('should merge into the same sketch as adding all values to one', () => {
+    const whole = new DDSketch();
+    const left = new DDSketch();
+    const right = new DDSketch();
+    values.forEach((v, i) => {
+      whole.add(v);
+      (i % 3 === 0 ? left : right).add(v);
+    });
+
+    left.merge(DDSketch.fromJSON(JSON.parse(JSON.stringify(right.toJSON()))));
+    expect(left.getPercentiles()).toEqual(whole.getPercentiles());
+    expect(() => left.merge(new DDSketch(0.05))).toThrow();
+  });
+
+  it('should merge provider sketches when merging operation metrics', () => {
+    const event = (duration: number) => ({
+      type: TelemetryEventType.REQUEST_END,
+      timestamp: Date.now(),
+      data: { method: 'tools/call', toolName: 'search', success: true, duration }
+    });
+    const fast = aggregateRequestMetrics(Array.from({ length: 90 }, () => event(10)));
+    const slow = aggregateRequestMetrics(Array.from({ length: 10 }, () => event(1000)));
+
+    const merged = mergeOperationMetrics([fast.toolMetrics.search, slow.toolMetrics.search]);
+    expect(merged.sketch!.count).toBe(100);
+    expect(merged.percentiles!.p50).toBeCloseTo(10, 0);
+    expect(merged.percentiles!.p95).toBeCloseTo(1000, -1);
+  });
+});
+
+describe('Latency percentiles', () => {
+  it('should stay accurate after the tracker event buffer rolls over', () => {
+    const tracker = new MCPTracker();
+    for (let i = 1; i <= 3000; i++) {
+      const context = tracker.createOperationContext('tools/call', String(i), { name: 'slow' });
+      tracker.startMCPSpan('tools/call', context);
+      tracker.endMCPSpan(context.operationId, { success: true, duration: i, timestamp: Date.now() });
+    }
+
+    const metrics = tracker.getCurrentMetrics();
+    const slow = metrics.toolMetrics.slow;
+    expect(tracker.getTelemetryEvents()).toHaveLength(1000);
+    expect(slow.count).toBe(3000);
+    expect(slow.sketch!.count).toBe(3000);
+    expect(Math.abs(slow.percentiles!.p50 - 1500) / 1500).toBeLessThanOrEqual(0.01);
+    expect(Math.abs(metrics.methodMetrics['tools/call'].percentiles!.p99 - 2970) / 2970).toBeLessThanOrEqual(0.01);
+
+    expect(tracker.renderPrometheusMetrics()).toMatch(/mcp_tool_duration_seconds\{tool="slow",quantile="0.5"\} 1\.\d+/);
+  });
+
+  it('should report percentiles from the performance monitor', () => {
+    const monitor = new PerformanceMonitor();
+    for (let i = 0; i < 50; i++) {
+      monitor.monitorSync(() => i, 'compute');
+    }
+
+    const stats = monitor.getPerformanceStats();
+    expect(stats.percentiles.p50).toBeLessThanOrEqual(stats.percentiles.p99);
+    expect(stats.percentiles.p999).toBeLessThanOrEqual(stats.maxDuration);
+    expect(monitor.getLatencySketch('compute').count).toBe(50);
+    expect(monitor.getLatencySketch('other').count).toBe(0);
+
+    monitor.clearHistory();
+    expect(monitor.getLatencyPercentiles().p50).toBe(0);
+  });
+});
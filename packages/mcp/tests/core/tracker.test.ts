@@ -1,12 +1,25 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
+import {
+  NodeTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor
+} from '@opentelemetry/sdk-trace-node';
 import { MCPTracker } from '../../src/core/tracker.js';
 import { MCPInstrumentationConfig } from '../../src/types/index.js';
 
 describe('MCPTracker', () => {
   let tracker: MCPTracker;
   let config: MCPInstrumentationConfig;
+  const exporter = new InMemorySpanExporter();
+
+  beforeAll(() => {
+    new NodeTracerProvider({
+      spanProcessors: [new SimpleSpanProcessor(exporter)]
+    }).register();
+  });
 
   beforeEach(() => {
+    exporter.reset();
     config = {
       serviceName: 'test-service',
       serviceVersion: '1.0.0',
@@ -74,6 +87,67 @@ describe('MCPTracker', () => {
     });
   });
 
+  describe('operation registry', () => {
+    it('should record the tool name from request params', () => {
+      const context = tracker.createOperationContext('tools/call', 'req-1', {
+        name: 'search',
+        arguments: { query: 'mcp' }
+      });
+
+      expect(tracker.getOperationRecord(context.operationId)).toMatchObject({
+        method: 'tools/call',
+        requestId: 'req-1',
+        toolName: 'search'
+      });
+
+      tracker.startMCPSpan('tools/call', context);
+      tracker.endMCPSpan(context.operationId, {
+        success: true,
+        data: { content: [] },
+        duration: 10,
+        timestamp: Date.now()
+      });
+
+      const span = exporter.getFinishedSpans()[0];
+      expect(span.attributes['mcp.method']).toBe('tools/call');
+      expect(span.attributes['mcp.tool_name']).toBe('search');
+      expect(tracker.getOperationRecord(context.operationId)).toBeUndefined();
+
+      const requestEnd = tracker.getTelemetryEvents().find(e => e.type === 'request_end');
+      expect(requestEnd!.data.method).toBe('tools/call');
+      expect(requestEnd!.data.toolName).toBe('search');
+    });
+
+    it('should record resource URIs and prompt names', () => {
+      const readContext = tracker.createOperationContext('resources/read', 'req-2', { uri: 'file:///a.txt' });
+      tracker.startMCPSpan('resources/read', readContext);
+      tracker.endMCPSpan(readContext.operationId, { success: true, data: {}, duration: 1, timestamp: Date.now() });
+
+      const promptContext = tracker.createOperationContext('prompts/get', 'req-3', { promptName: 'greeting' });
+      tracker.startMCPSpan('prompts/get', promptContext);
+      tracker.endMCPSpan(promptContext.operationId, { success: true, data: {}, duration: 1, timestamp: Date.now() });
+
+      const [readSpan, promptSpan] = exporter.getFinishedSpans();
+      expect(readSpan.attributes['mcp.resource_uri']).toBe('file:///a.txt');
+      expect(promptSpan.attributes['mcp.prompt_name']).toBe('greeting');
+    });
+
+    it('should count list results from the response', () => {
+      const context = tracker.createOperationContext('tools/list');
+      tracker.startMCPSpan('tools/list', context);
+      tracker.endMCPSpan(context.operationId, {
+        success: true,
+        data: { tools: [{ name: 'a' }, { name: 'b' }] },
+        duration: 1,
+        timestamp: Date.now()
+      });
+
+      const span = exporter.getFinishedSpans()[0];
+      expect(span.attributes['mcp.method']).toBe('tools/list');
+      expect(span.attributes['mcp.tools_count']).toBe(2);
+    });
+  });
+
   describe('telemetry', () => {
     it('should record telemetry events', () => {
       const context = tracker.createOperationContext('test');
@@ -83,5 +157,20 @@ describe('MCPTracker', () => {
       expect(events.length).toBeGreaterThan(0);
       expect(events[events.length - 1].type).toBe('request_start');
     });
+
+    it('should record the parent span ID of a request', () => {
+      const parentContext = tracker.createOperationContext('parent');
+      const parent = tracker.startMCPSpan('parent', parentContext);
+      const context = tracker.createOperationContext('child');
+      context.parentSpan = parent;
+      const child = tracker.startMCPSpan('child', context);
+
+      const start = tracker.getTelemetryEvents().at(-1)!;
+      expect(start.spanContext).toEqual({
+        traceId: parent.spanContext().traceId,
+        spanId: child.spanContext().spanId,
+        parentSpanId: parent.spanContext().spanId
+      });
+    });
   });
 });
\ No newline at end of file
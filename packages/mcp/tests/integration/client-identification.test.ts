@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  NodeTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor
+} from '@opentelemetry/sdk-trace-node';
+import { trackmcp, normalizeClientName, identifyClient } from '../../src/index.js';
+import { MCPInstrumentationConfig } from '../../src/types/index.js';
+
+describe('Client Identification', () => {
+  const exporter = new InMemorySpanExporter();
+
+  beforeAll(() => {
+    const provider = new NodeTracerProvider({
+      spanProcessors: [new SimpleSpanProcessor(exporter)]
+    });
+    provider.register();
+  });
+
+  beforeEach(() => {
+    exporter.reset();
+  });
+
+  async function callEchoAs(clientName: string, config?: MCPInstrumentationConfig) {
+    const mcpServer = trackmcp(new McpServer({ name: 'identify-server', version: '1.0.0' }), config);
+    mcpServer.registerTool('echo', {}, async () => ({ content: [{ type: 'text', text: 'echo' }] }));
+
+    const client = new Client(
+      { name: clientName, version: '0.9.1' },
+      { capabilities: { roots: { listChanged: true }, sampling: {} } }
+    );
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await mcpServer.connect(serverTransport);
+    await client.connect(clientTransport);
+    await client.callTool({ name: 'echo', arguments: {} });
+    await client.close();
+
+    return exporter.getFinishedSpans().find(s => s.name === 'mcp.tools/call')!;
+  }
+
+  it('should normalize known client names', () => {
+    expect(normalizeClientName('claude-ai')).toBe('claude-desktop');
+    expect(normalizeClientName('claude-code')).toBe('claude-code');
+    expect(normalizeClientName('cursor-vscode')).toBe('cursor');
+    expect(normalizeClientName('Cline')).toBe('cline');
+    expect(normalizeClientName('Visual Studio Code')).toBe('vscode');
+    expect(normalizeClientName('My Custom Agent')).toBe('my custom agent');
+  });
+
+  it('should attach client name, version and capabilities to later spans', async () => {
+    const span = await callEchoAs('claude-ai');
+
+    expect(span.attributes['mcp.client.name']).toBe('claude-desktop');
+    expect(span.attributes['mcp.client.raw_name']).toBe('claude-ai');
+    expect(span.attributes['mcp.client.version']).toBe('0.9.1');
+    expect(span.attributes['mcp.client_id']).toBe('claude-desktop');
+    expect(span.attributes['mcp.client.capabilities.roots']).toBe(true);
+    expect(span.attributes['mcp.client.capabilities.roots.listChanged']).toBe(true);
+    expect(span.attributes['mcp.client.capabilities.sampling']).toBe(true);
+  });
+
+  it('should apply a custom identify callback', async () => {
+    const span = await callEchoAs('internal-agent', {
+      identifyClient: (clientInfo) => ({
+        clientId: `agent:${clientInfo?.version}`,
+        name: 'ops-agent'
+      })
+    });
+
+    expect(span.attributes['mcp.client_id']).toBe('agent:0.9.1');
+    expect(span.attributes['mcp.client.name']).toBe('ops-agent');
+    expect(span.attributes['mcp.client.raw_name']).toBe('internal-agent');
+  });
+
+  it('should fall back to built-in identification when the callback throws', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const identity = identifyClient({ name: 'Cursor', version: '1.0' }, undefined, () => {
+      throw new Error('lookup failed');
+    });
+
+    expect(identity.name).toBe('cursor');
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
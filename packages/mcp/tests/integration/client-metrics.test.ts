@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { JSONRPCMessage, ListToolsResultSchema } from '@modelcontextprotocol/sdk/types.js';
+import { trackmcpClient, getTracker } from '../../src/index.js';
+import { TelemetryEventType } from '../../src/types/index.js';
+
+// No tracer provider or context manager is registered in this file
+describe('Client metrics without an OTel context manager', () => {
+  it('should record each high-level call once', async () => {
+    const mcpServer = new McpServer({ name: 'metrics-server', version: '1.0.0' });
+    mcpServer.registerTool('echo', { description: 'Echo' }, async () => ({
+      content: [{ type: 'text', text: 'echoed' }]
+    }));
+
+    const client = trackmcpClient(new Client({ name: 'metrics-client', version: '1.0.0' }));
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await mcpServer.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    await client.listTools();
+    await client.callTool({ name: 'echo', arguments: {} });
+
+    const tracker = getTracker(client)!;
+    const starts = tracker.getTelemetryEvents()
+      .filter(event => event.type === TelemetryEventType.REQUEST_START)
+      .map(event => event.data.method);
+    expect(starts).toEqual(['initialize', 'tools/list', 'tools/call']);
+    expect(tracker.getCurrentMetrics().totalRequests).toBe(3);
+
+    await client.close();
+  });
+
+  it('should trace a reused params object every time and leave absent params absent', async () => {
+    const mcpServer = new McpServer({ name: 'metrics-server', version: '1.0.0' });
+    mcpServer.registerTool('echo', { description: 'Echo' }, async () => ({
+      content: [{ type: 'text', text: 'echoed' }]
+    }));
+
+    const client = trackmcpClient(new Client({ name: 'metrics-client', version: '1.0.0' }));
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const sent: JSONRPCMessage[] = [];
+    const send = clientTransport.send.bind(clientTransport);
+    clientTransport.send = (message, options) => {
+      sent.push(message);
+      return send(message, options);
+    };
+    await mcpServer.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    const params = { name: 'echo', arguments: {} };
+    await client.callTool(params);
+    await client.callTool(params);
+    await client.request({ method: 'tools/list' }, ListToolsResultSchema);
+
+    const starts = getTracker(client)!.getTelemetryEvents()
+      .filter(event => event.type === TelemetryEventType.REQUEST_START)
+      .map(event => event.data.method);
+    expect(starts).toEqual(['initialize', 'tools/call', 'tools/call', 'tools/list']);
+
+    const listRequest = sent.find(message => 'method' in message && message.method === 'tools/list')!;
+    expect('params' in listRequest && listRequest.params !== undefined).toBe(false);
+
+    await client.close();
+  });
+});
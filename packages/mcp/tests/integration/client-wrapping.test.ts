@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ListResourcesResultSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  NodeTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor
+} from '@opentelemetry/sdk-trace-node';
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import { trackmcp, trackmcpClient, getTracker } from '../../src/index.js';
+
+describe('Client Wrapping Integration', () => {
+  const exporter = new InMemorySpanExporter();
+
+  beforeAll(() => {
+    const provider = new NodeTracerProvider({
+      spanProcessors: [new SimpleSpanProcessor(exporter)]
+    });
+    provider.register();
+  });
+
+  beforeEach(() => {
+    exporter.reset();
+  });
+
+  async function connectPair(instrumentServer = false) {
+    const mcpServer = new McpServer({ name: 'client-test-server', version: '2.0.0' });
+    if (instrumentServer) {
+      trackmcp(mcpServer);
+    }
+
+    mcpServer.registerTool('echo', { description: 'Echo' }, async () => ({
+      content: [{ type: 'text', text: 'echoed' }]
+    }));
+    mcpServer.registerResource('readme', 'file:///readme.md', {}, async (uri) => ({
+      contents: [{ uri: uri.href, text: '# Readme' }]
+    }));
+    mcpServer.registerPrompt('greeting', {}, async () => ({
+      messages: [{ role: 'user', content: { type: 'text', text: 'hello' } }]
+    }));
+
+    const client = trackmcpClient(
+      new Client({ name: 'client-test', version: '1.0.0' }),
+      { projectId: 'proj_client' }
+    );
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await mcpServer.connect(serverTransport);
+    await client.connect(clientTransport);
+    exporter.reset();
+
+    return { client, mcpServer };
+  }
+
+  it('should create one CLIENT span per high-level call', async () => {
+    const { client } = await connectPair();
+
+    await client.callTool({ name: 'echo', arguments: {} });
+    await client.readResource({ uri: 'file:///readme.md' });
+    await client.getPrompt({ name: 'greeting' });
+    await client.listTools();
+
+    const spans = exporter.getFinishedSpans();
+    expect(spans.map(s => s.name)).toEqual([
+      'mcp.tools/call',
+      'mcp.resources/read',
+      'mcp.prompts/get',
+      'mcp.tools/list'
+    ]);
+    expect(spans.every(s => s.kind === SpanKind.CLIENT)).toBe(true);
+
+    expect(spans[0].attributes['mcp.tool_name']).toBe('echo');
+    expect(spans[0].attributes['mcp.server.name']).toBe('client-test-server');
+    expect(spans[0].attributes['neonflare.project_id']).toBe('proj_client');
+    expect(spans[1].attributes['mcp.resource_uri']).toBe('file:///readme.md');
+    expect(spans[2].attributes['mcp.prompt_name']).toBe('greeting');
+    expect(spans[3].attributes['mcp.tools_count']).toBe(1);
+  });
+
+  it('should trace raw request() calls', async () => {
+    const { client } = await connectPair();
+
+    await client.request({ method: 'resources/list' }, ListResourcesResultSchema);
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.name).toBe('mcp.resources/list');
+    expect(span.kind).toBe(SpanKind.CLIENT);
+    expect(span.attributes['mcp.resources_count']).toBe(1);
+  });
+
+  it('should record failed requests', async () => {
+    const { client } = await connectPair();
+
+    await expect(client.getPrompt({ name: 'missing' })).rejects.toThrow();
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.status.code).toBe(SpanStatusCode.ERROR);
+    expect(getTracker(client)!.getCurrentMetrics().failedRequests).toBe(1);
+  });
+
+  it('should trace both sides when server and client are instrumented', async () => {
+    const { client } = await connectPair(true);
+
+    await client.callTool({ name: 'echo', arguments: {} });
+
+    const spans = exporter.getFinishedSpans().filter(s => s.name === 'mcp.tools/call');
+    expect(spans.map(s => s.kind).sort()).toEqual([SpanKind.SERVER, SpanKind.CLIENT].sort());
+  });
+});
@@ -1,7 +1,19 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
 import { trackmcp, getContextInjector, getTracker } from '../../src/index.js';
-import { injectContextIntoSchema, extractContextFromArgs, stripContextFromArgs } from '../../src/enrichment/context-injector.js';
+import {
+  injectContextIntoSchema,
+  extractContextFromArgs,
+  extractStructuredContextFromArgs,
+  createContextAttributes,
+  stripContextFromArgs,
+  hasContextInjection,
+  ContextInjectionMiddleware
+} from '../../src/enrichment/context-injector.js';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { CallToolRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { createTestServer, createToolCallRequest, invokeHandlerDirectly } from '../utils/mcp-helpers.js';
 
 describe('Context Injection', () => {
   describe('Schema Injection', () => {
@@ -57,6 +69,50 @@ describe('Context Injection', () => {
     });
   });
 
+  describe('Zod Schemas', () => {
+    it('should inject an optional string field into a Zod raw shape', () => {
+      const shape = { query: z.string() };
+      const modified = injectContextIntoSchema(shape, { description: 'Why?' });
+
+      expect(shape).not.toHaveProperty('context');
+      expect(modified.query).toBe(shape.query);
+      expect(modified.context.description).toBe('Why?');
+      expect(modified.context.safeParse(undefined).success).toBe(true);
+      expect(hasContextInjection(modified)).toBe(true);
+      expect(hasContextInjection(shape)).toBe(false);
+    });
+
+    it('should honor required and structured mode for Zod shapes', () => {
+      const modified = injectContextIntoSchema({ path: z.string() }, { required: true, mode: 'structured' });
+
+      expect(modified.context.safeParse(undefined).success).toBe(false);
+      expect(modified.context.safeParse({ intent: 'clean up', confidence: 0.9 }).success).toBe(true);
+      expect(modified.context.safeParse({ confidence: 0.9 }).success).toBe(false);
+      expect(hasContextInjection(modified)).toBe(true);
+    });
+
+    it('should extend Zod object schemas', () => {
+      const modified = injectContextIntoSchema(z.object({ id: z.number() }));
+
+      expect(hasContextInjection(modified)).toBe(true);
+      expect(modified.parse({ id: 1, context: 'lookup' })).toEqual({ id: 1, context: 'lookup' });
+    });
+
+    it('should produce a shape McpServer accepts and advertises', async () => {
+      const mcpServer = new McpServer({ name: 'zod-test', version: '1.0.0' });
+      mcpServer.registerTool('search', {
+        inputSchema: injectContextIntoSchema({ query: z.string() })
+      }, async ({ query }) => ({ content: [{ type: 'text', text: String(query) }] }));
+
+      const list = await invokeHandlerDirectly(mcpServer.server, 'tools/list', {
+        method: 'tools/list',
+        params: {}
+      });
+
+      expect(hasContextInjection(list.tools[0].inputSchema)).toBe(true);
+    });
+  });
+
   describe('Context Extraction', () => {
     it('should extract context from arguments', () => {
       const argsWithContext = {
@@ -82,6 +138,136 @@ describe('Context Injection', () => {
     });
   });
 
+  describe('Structured Intent', () => {
+    it('should inject a structured intent object', () => {
+      const schema = injectContextIntoSchema(
+        { type: 'object', properties: { query: { type: 'string' } } },
+        { mode: 'structured' }
+      );
+
+      const context = schema.properties.context;
+      expect(context.type).toBe('object');
+      expect(Object.keys(context.properties)).toEqual([
+        'intent', 'goal', 'expected_outcome', 'confidence', 'previous_step'
+      ]);
+      expect(context.properties.confidence.type).toBe('number');
+      expect(context.required).toEqual(['intent']);
+      expect(hasContextInjection(schema)).toBe(true);
+    });
+
+    it('should support custom intent fields', () => {
+      const schema = injectContextIntoSchema(undefined, {
+        mode: 'structured',
+        structuredFields: [
+          { name: 'intent', required: true },
+          { name: 'risk', enum: ['low', 'high'] }
+        ]
+      });
+
+      expect(schema.properties.context.properties.risk.enum).toEqual(['low', 'high']);
+    });
+
+    it('should parse structured intent from objects and JSON strings', () => {
+      const intent = { intent: 'find docs', goal: 'answer question', confidence: 0.8, nested: { a: 1 } };
+
+      expect(extractStructuredContextFromArgs({ context: intent })).toEqual({
+        intent: 'find docs',
+        goal: 'answer question',
+        confidence: 0.8
+      });
+      expect(extractStructuredContextFromArgs({ context: JSON.stringify(intent) })?.goal).toBe('answer question');
+      expect(extractContextFromArgs({ context: intent })).toBe('find docs');
+    });
+
+    it('should emit each intent field as a span attribute', () => {
+      const attributes = createContextAttributes('find docs', { intent: 'find docs', goal: 'answer question', confidence: 0.8 });
+
+      expect(attributes['mcp.tool.ai_context']).toBe('find docs');
+      expect(attributes['mcp.tool.ai_intent.goal']).toBe('answer question');
+      expect(attributes['mcp.tool.ai_intent.confidence']).toBe(0.8);
+    });
+
+    it('should only keep configured fields when processing arguments', () => {
+      const middleware = new ContextInjectionMiddleware({
+        mode: 'structured',
+        structuredFields: [{ name: 'intent' }, { name: 'goal' }]
+      });
+
+      const { context, intent, cleanedArgs } = middleware.processToolArguments('search', {
+        query: 'mcp',
+        context: { intent: 'find docs', goal: 'answer', extra: 'dropped' }
+      });
+
+      expect(context).toBe('find docs');
+      expect(intent).toEqual({ intent: 'find docs', goal: 'answer' });
+      expect(cleanedArgs).toEqual({ query: 'mcp' });
+    });
+  });
+
+  describe('Per-tool Policies', () => {
+    const middleware = new ContextInjectionMiddleware({
+      minLength: 10,
+      tools: {
+        'delete_*': { required: true, description: 'Explain why this deletion is needed' },
+        ping: { enabled: false },
+        delete_all: { minLength: 40 }
+      }
+    });
+
+    it('should resolve glob and exact overrides on top of global settings', () => {
+      expect(middleware.resolveToolConfig('search').required).toBe(false);
+
+      const deleteFile = middleware.resolveToolConfig('delete_file');
+      expect(deleteFile.required).toBe(true);
+      expect(deleteFile.description).toBe('Explain why this deletion is needed');
+      expect(deleteFile.minLength).toBe(10);
+
+      const deleteAll = middleware.resolveToolConfig('delete_all');
+      expect(deleteAll.required).toBe(true);
+      expect(deleteAll.minLength).toBe(40);
+    });
+
+    it('should apply policies when processing schemas', () => {
+      const schema = { type: 'object', properties: {} };
+
+      expect(middleware.processToolSchema('delete_file', schema).required).toContain('context');
+      expect(middleware.processToolSchema('ping', schema).properties.context).toBeUndefined();
+    });
+
+    it('should pass arguments through for tools with injection disabled', () => {
+      const args = { context: 'a real ping argument' };
+      const result = middleware.processToolArguments('ping', args);
+
+      expect(result.cleanedArgs).toBe(args);
+      expect(result.context).toBeUndefined();
+    });
+
+    it('should rate context quality against minLength and validation rules', () => {
+      expect(middleware.processToolArguments('search', { context: 'short' }).quality).toBe('insufficient');
+      expect(middleware.processToolArguments('search', { context: 'long enough context' }).quality).toBe('sufficient');
+      expect(middleware.processToolArguments('search', {}).quality).toBe('missing');
+
+      const validating = new ContextInjectionMiddleware({
+        validate: (context) => context.includes('because')
+      });
+      expect(validating.processToolArguments('search', { context: 'searching docs' }).quality).toBe('insufficient');
+      expect(validating.processToolArguments('search', { context: 'searching because asked' }).quality).toBe('sufficient');
+    });
+
+    it('should keep stdout free for stdio transports', () => {
+      const log = vi.spyOn(console, 'log');
+      middleware.processToolSchema('search', { type: 'object', properties: {} });
+      middleware.processToolArguments('search', { context: 'searching because asked' });
+
+      expect(log).not.toHaveBeenCalled();
+      log.mockRestore();
+    });
+
+    it('should emit the context quality attribute', () => {
+      expect(createContextAttributes('short', undefined, 'insufficient')['mcp.tool.context_quality']).toBe('insufficient');
+    });
+  });
+
   describe('Context Stripping', () => {
     it('should remove context from arguments', () => {
       const argsWithContext = {
@@ -196,4 +382,58 @@ describe('Context Injection', () => {
       await tracker.shutdown();
     });
   });
-});
\ No newline at end of file
+
+  describe('Automatic Injection', () => {
+    it('should inject context into tools/list responses', async () => {
+      const server = createTestServer();
+      trackmcp(server, {
+        contextInjection: { enabled: true, description: 'Why are you calling this?' }
+      });
+
+      const result = await invokeHandlerDirectly(server, 'tools/list', { method: 'tools/list', params: {} });
+      const schema = result.tools[0].inputSchema;
+
+      expect(schema.properties.query).toBeDefined();
+      expect(schema.properties.context.type).toBe('string');
+      expect(schema.properties.context.description).toBe('Why are you calling this?');
+    });
+
+    it('should strip context before the tool handler runs', async () => {
+      const server = createTestServer();
+      trackmcp(server, { contextInjection: { enabled: true } });
+
+      let receivedArgs: any;
+      server.setRequestHandler(CallToolRequestSchema, async (request) => {
+        receivedArgs = request.params.arguments;
+        return { content: [{ type: 'text', text: 'ok' }] };
+      });
+
+      await invokeHandlerDirectly(server, 'tools/call', {
+        method: 'tools/call',
+        ...createToolCallRequest('test-tool', { query: 'mcp', context: 'The user wants MCP docs' })
+      });
+
+      expect(receivedArgs).toEqual({ query: 'mcp' });
+    });
+
+    it('should leave schemas and arguments untouched when injection is not enabled', async () => {
+      const server = createTestServer();
+      trackmcp(server);
+
+      let receivedArgs: any;
+      server.setRequestHandler(CallToolRequestSchema, async (request) => {
+        receivedArgs = request.params.arguments;
+        return { content: [{ type: 'text', text: 'ok' }] };
+      });
+
+      const list = await invokeHandlerDirectly(server, 'tools/list', { method: 'tools/list', params: {} });
+      expect(list.tools[0].inputSchema.properties.context).toBeUndefined();
+
+      await invokeHandlerDirectly(server, 'tools/call', {
+        method: 'tools/call',
+        ...createToolCallRequest('test-tool', { query: 'mcp', context: 'kept' })
+      });
+      expect(receivedArgs.context).toBe('kept');
+    });
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  NodeTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor
+} from '@opentelemetry/sdk-trace-node';
+import { SpanStatusCode } from '@opentelemetry/api';
+import { trackmcp, getTracker } from '../../src/index.js';
+import { invokeHandlerDirectly } from '../utils/mcp-helpers.js';
+
+describe('McpServer Wrapping Integration', () => {
+  const exporter = new InMemorySpanExporter();
+
+  beforeAll(() => {
+    const provider = new NodeTracerProvider({
+      spanProcessors: [new SimpleSpanProcessor(exporter)]
+    });
+    provider.register();
+  });
+
+  beforeEach(() => {
+    exporter.reset();
+  });
+
+  function createMcpServer() {
+    return new McpServer({ name: 'mcp-test-server', version: '1.0.0' });
+  }
+
+  it('should attach instrumentation to McpServer and its underlying server', () => {
+    const mcpServer = createMcpServer();
+    const instrumented = trackmcp(mcpServer, { serviceName: 'mcp-wrapping-test' });
+
+    expect(instrumented).toBe(mcpServer);
+    expect(getTracker(mcpServer)).toBeDefined();
+    expect(getTracker(mcpServer.server)).toBe(getTracker(mcpServer));
+  });
+
+  it('should create a span per registered tool with registration metadata', async () => {
+    const mcpServer = createMcpServer();
+    trackmcp(mcpServer, { projectId: 'proj_mcp_tools' });
+
+    mcpServer.registerTool('search', {
+      title: 'Search',
+      description: 'Search the index',
+      annotations: { readOnlyHint: true }
+    }, async () => ({
+      content: [{ type: 'text', text: 'results' }]
+    }));
+
+    const result = await invokeHandlerDirectly(mcpServer.server, 'tools/call', {
+      method: 'tools/call',
+      params: { name: 'search', arguments: {} }
+    });
+
+    expect(result.content[0].text).toBe('results');
+
+    const toolSpan = exporter.getFinishedSpans().find(s => s.name === 'mcp.tool.search');
+    expect(toolSpan).toBeDefined();
+    expect(toolSpan!.attributes['mcp.tool_name']).toBe('search');
+    expect(toolSpan!.attributes['mcp.tool.title']).toBe('Search');
+    expect(toolSpan!.attributes['mcp.tool.description']).toBe('Search the index');
+    expect(toolSpan!.attributes['mcp.tool.annotations.readOnlyHint']).toBe(true);
+    expect(toolSpan!.attributes['neonflare.project_id']).toBe('proj_mcp_tools');
+
+    const requestSpan = exporter.getFinishedSpans().find(s => s.name === 'mcp.tools/call');
+    expect(requestSpan).toBeDefined();
+    expect(toolSpan!.parentSpanContext?.spanId).toBe(requestSpan!.spanContext().spanId);
+  });
+
+  it('should instrument tools registered before trackmcp and via tool()', async () => {
+    const mcpServer = createMcpServer();
+
+    mcpServer.tool('early', async () => ({ content: [{ type: 'text', text: 'early' }] }));
+    trackmcp(mcpServer);
+    mcpServer.tool('late', 'A late tool', async () => ({ content: [{ type: 'text', text: 'late' }] }));
+
+    await invokeHandlerDirectly(mcpServer.server, 'tools/call', {
+      method: 'tools/call',
+      params: { name: 'early', arguments: {} }
+    });
+    await invokeHandlerDirectly(mcpServer.server, 'tools/call', {
+      method: 'tools/call',
+      params: { name: 'late', arguments: {} }
+    });
+
+    const names = exporter.getFinishedSpans().map(s => s.name);
+    expect(names.filter(n => n === 'mcp.tools/call')).toHaveLength(2);
+    expect(names).toContain('mcp.tool.early');
+    expect(names).toContain('mcp.tool.late');
+  });
+
+  it('should record tool callback errors on the tool span', async () => {
+    const mcpServer = createMcpServer();
+    trackmcp(mcpServer);
+
+    mcpServer.registerTool('explode', { description: 'Always fails' }, async () => {
+      throw new Error('boom');
+    });
+
+    const result = await invokeHandlerDirectly(mcpServer.server, 'tools/call', {
+      method: 'tools/call',
+      params: { name: 'explode', arguments: {} }
+    });
+
+    // McpServer converts thrown errors into isError results
+    expect(result.isError).toBe(true);
+
+    const toolSpan = exporter.getFinishedSpans().find(s => s.name === 'mcp.tool.explode');
+    expect(toolSpan!.status.code).toBe(SpanStatusCode.ERROR);
+    expect(toolSpan!.status.message).toBe('boom');
+  });
+
+  it('should keep tools instrumented after update() replaces the callback', async () => {
+    const mcpServer = createMcpServer();
+    trackmcp(mcpServer);
+
+    const tool = mcpServer.registerTool('versioned', {}, async () => ({
+      content: [{ type: 'text', text: 'v1' }]
+    }));
+    tool.update({ callback: async () => ({ content: [{ type: 'text', text: 'v2' }] }) });
+
+    const result = await invokeHandlerDirectly(mcpServer.server, 'tools/call', {
+      method: 'tools/call',
+      params: { name: 'versioned', arguments: {} }
+    });
+
+    expect(result.content[0].text).toBe('v2');
+    expect(exporter.getFinishedSpans().some(s => s.name === 'mcp.tool.versioned')).toBe(true);
+  });
+
+  it('should create spans for resources and resource templates', async () => {
+    const mcpServer = createMcpServer();
+    trackmcp(mcpServer);
+
+    mcpServer.registerResource('readme', 'file:///readme.md', {
+      description: 'Project readme',
+      mimeType: 'text/markdown'
+    }, async (uri) => ({
+      contents: [{ uri: uri.href, text: '# Readme' }]
+    }));
+
+    mcpServer.registerResource(
+      'user',
+      new ResourceTemplate('users://{id}', { list: undefined }),
+      { description: 'A user profile' },
+      async (uri, variables) => ({
+        contents: [{ uri: uri.href, text: `user ${variables.id}` }]
+      })
+    );
+
+    await invokeHandlerDirectly(mcpServer.server, 'resources/read', {
+      method: 'resources/read',
+      params: { uri: 'file:///readme.md' }
+    });
+    await invokeHandlerDirectly(mcpServer.server, 'resources/read', {
+      method: 'resources/read',
+      params: { uri: 'users://42' }
+    });
+
+    const spans = exporter.getFinishedSpans();
+    const readmeSpan = spans.find(s => s.name === 'mcp.resource.readme');
+    expect(readmeSpan!.attributes['mcp.resource_uri']).toBe('file:///readme.md');
+    expect(readmeSpan!.attributes['mcp.resource.description']).toBe('Project readme');
+    expect(readmeSpan!.attributes['mcp.resource.mime_type']).toBe('text/markdown');
+
+    const userSpan = spans.find(s => s.name === 'mcp.resource.user');
+    expect(userSpan!.attributes['mcp.resource_uri']).toBe('users://42');
+    expect(userSpan!.attributes['mcp.resource.uri_template']).toBe('users://{id}');
+  });
+
+  it('should create spans for prompts', async () => {
+    const mcpServer = createMcpServer();
+    trackmcp(mcpServer);
+
+    mcpServer.registerPrompt('greeting', {
+      title: 'Greeting',
+      description: 'Say hello'
+    }, async () => ({
+      messages: [{ role: 'user', content: { type: 'text', text: 'hello' } }]
+    }));
+
+    await invokeHandlerDirectly(mcpServer.server, 'prompts/get', {
+      method: 'prompts/get',
+      params: { name: 'greeting' }
+    });
+
+    const promptSpan = exporter.getFinishedSpans().find(s => s.name === 'mcp.prompt.greeting');
+    expect(promptSpan!.attributes['mcp.prompt_name']).toBe('greeting');
+    expect(promptSpan!.attributes['mcp.prompt.title']).toBe('Greeting');
+    expect(promptSpan!.attributes['mcp.prompt.description']).toBe('Say hello');
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
+  ListRootsRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import {
+  NodeTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor
+} from '@opentelemetry/sdk-trace-node';
+import { SpanKind } from '@opentelemetry/api';
+import { trackmcp, createMCPInstrumentation, MemoryTelemetryProvider } from '../../src/index.js';
+import { MCPMethodType } from '../../src/types/index.js';
+
+describe('Full MCP Method Surface', () => {
+  const exporter = new InMemorySpanExporter();
+
+  beforeAll(() => {
+    const provider = new NodeTracerProvider({
+      spanProcessors: [new SimpleSpanProcessor(exporter)]
+    });
+    provider.register();
+  });
+
+  beforeEach(() => {
+    exporter.reset();
+  });
+
+  const spanNamed = (name: string) => exporter.getFinishedSpans().find(s => s.name === name)!;
+
+  it('should instrument client-to-server methods with method-specific attributes', async () => {
+    const instrumentation = createMCPInstrumentation();
+
+    await instrumentation.instrumentResourceTemplatesList(async () => ({
+      resourceTemplates: [{ name: 'user', uriTemplate: 'users://{id}' }]
+    }));
+    await instrumentation.instrumentResourcesSubscribe(async () => ({}), 'file:///log.txt');
+    await instrumentation.instrumentResourcesUnsubscribe(async () => ({}), 'file:///log.txt');
+    await instrumentation.instrumentCompletionComplete(
+      async () => ({ completion: { values: ['alice', 'alan'] } }),
+      { ref: { type: 'ref/prompt', name: 'greeting' }, argument: { name: 'user', value: 'al' } }
+    );
+    await instrumentation.instrumentLoggingSetLevel(async () => ({}), 'debug');
+
+    expect(spanNamed('mcp.resources/templates/list').attributes['mcp.resource_templates_count']).toBe(1);
+    expect(spanNamed('mcp.resources/subscribe').attributes['mcp.resource_uri']).toBe('file:///log.txt');
+    expect(spanNamed('mcp.resources/unsubscribe').attributes['mcp.resource_uri']).toBe('file:///log.txt');
+
+    const completion = spanNamed('mcp.completion/complete');
+    expect(completion.attributes['mcp.completion.ref_type']).toBe('ref/prompt');
+    expect(completion.attributes['mcp.completion.ref']).toBe('greeting');
+    expect(completion.attributes['mcp.completion.argument']).toBe('user');
+    expect(completion.attributes['mcp.completion.values_count']).toBe(2);
+
+    expect(spanNamed('mcp.logging/setLevel').attributes['mcp.logging.level']).toBe('debug');
+  });
+
+  it('should trace server-to-client requests with CLIENT spans', async () => {
+    const mcpServer = trackmcp(new McpServer({ name: 'surface-server', version: '1.0.0' }));
+    const client = new Client(
+      { name: 'surface-client', version: '1.0.0' },
+      { capabilities: { sampling: {}, elicitation: {}, roots: {} } }
+    );
+
+    client.setRequestHandler(CreateMessageRequestSchema, async () => ({
+      model: 'test-model',
+      role: 'assistant',
+      stopReason: 'endTurn',
+      content: { type: 'text', text: 'sampled' }
+    }));
+    client.setRequestHandler(ElicitRequestSchema, async () => ({ action: 'decline' }));
+    client.setRequestHandler(ListRootsRequestSchema, async () => ({
+      roots: [{ uri: 'file:///workspace' }]
+    }));
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await mcpServer.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    await mcpServer.server.createMessage({
+      messages: [{ role: 'user', content: { type: 'text', text: 'hi' } }],
+      maxTokens: 64
+    });
+    await mcpServer.server.elicitInput({
+      message: 'Pick a name',
+      requestedSchema: { type: 'object', properties: { name: { type: 'string' } } }
+    });
+    await mcpServer.server.listRoots();
+    await client.close();
+
+    const sampling = spanNamed('mcp.sampling/createMessage');
+    expect(sampling.kind).toBe(SpanKind.CLIENT);
+    expect(sampling.attributes['mcp.sampling.messages_count']).toBe(1);
+    expect(sampling.attributes['mcp.sampling.max_tokens']).toBe(64);
+    expect(sampling.attributes['mcp.sampling.model']).toBe('test-model');
+    expect(sampling.attributes['mcp.sampling.stop_reason']).toBe('endTurn');
+
+    expect(spanNamed('mcp.elicitation/create').attributes['mcp.elicitation.action']).toBe('decline');
+    expect(spanNamed('mcp.roots/list').attributes['mcp.roots_count']).toBe(1);
+  });
+
+  it('should trace new methods handled by an instrumented server', async () => {
+    const mcpServer = trackmcp(new McpServer({ name: 'surface-server', version: '1.0.0' }));
+    mcpServer.registerResource(
+      'user',
+      new ResourceTemplate('users://{id}', { list: undefined }),
+      {},
+      async (uri) => ({ contents: [{ uri: uri.href, text: 'user' }] })
+    );
+
+    const client = new Client({ name: 'surface-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await mcpServer.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    await client.listResourceTemplates();
+    await client.close();
+
+    const span = spanNamed('mcp.resources/templates/list');
+    expect(span.kind).toBe(SpanKind.SERVER);
+    expect(span.attributes['mcp.resource_templates_count']).toBe(1);
+  });
+
+  it('should have a methodMetrics entry for every method type', () => {
+    const metrics = new MemoryTelemetryProvider().getMetrics();
+
+    for (const method of Object.values(MCPMethodType)) {
+      expect(metrics.methodMetrics[method]).toEqual({
+        count: 0,
+        errorCount: 0,
+        averageDuration: 0,
+        minDuration: 0,
+        maxDuration: 0
+      });
+    }
+  });
+});
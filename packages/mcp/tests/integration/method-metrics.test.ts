@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeAll, vi, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ReadResourceRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  NodeTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor
+} from '@opentelemetry/sdk-trace-node';
+import {
+  trackmcp,
+  getTracker,
+  MemoryTelemetryProvider,
+  ConsoleTelemetryProvider,
+  OTLPTTelemetryProvider,
+  CompositeTelemetryProvider,
+  DefaultTelemetryManager,
+  mergeMetrics
+} from '../../src/index.js';
+import { TelemetryEvent, TelemetryEventType } from '../../src/types/index.js';
+
+function requestEnd(data: Record<string, unknown>): TelemetryEvent {
+  return { type: TelemetryEventType.REQUEST_END, timestamp: Date.now(), data };
+}
+
+describe('Method Metrics', () => {
+  const exporter = new InMemorySpanExporter();
+
+  beforeAll(() => {
+    const provider = new NodeTracerProvider({
+      spanProcessors: [new SimpleSpanProcessor(exporter)]
+    });
+    provider.register();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should break down requests by method, tool, resource template and prompt', async () => {
+    const mcpServer = trackmcp(new McpServer({ name: 'metrics-server', version: '1.0.0' }));
+    mcpServer.registerTool('echo', {}, async () => ({ content: [{ type: 'text', text: 'echo' }] }));
+    mcpServer.registerTool('fail', {}, async () => ({ isError: true, content: [{ type: 'text', text: 'nope' }] }));
+    mcpServer.registerResource('readme', 'file:///readme.md', {}, async (uri) => ({
+      contents: [{ uri: uri.href, text: '# Readme' }]
+    }));
+    mcpServer.registerResource(
+      'user',
+      new ResourceTemplate('users://{id}', { list: undefined }),
+      {},
+      async (uri, variables) => ({ contents: [{ uri: uri.href, text: `user ${variables.id}` }] })
+    );
+    mcpServer.registerPrompt('greeting', {}, async () => ({
+      messages: [{ role: 'user', content: { type: 'text', text: 'Hello' } }]
+    }));
+
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await mcpServer.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    await client.callTool({ name: 'echo', arguments: {} });
+    await client.callTool({ name: 'echo', arguments: {} });
+    await client.callTool({ name: 'fail', arguments: {} });
+    await client.readResource({ uri: 'users://1' });
+    await client.readResource({ uri: 'users://2' });
+    await client.readResource({ uri: 'file:///readme.md' });
+    await client.getPrompt({ name: 'greeting' });
+    await client.close();
+
+    const metrics = getTracker(mcpServer)!.getCurrentMetrics();
+    expect(metrics.methodMetrics['tools/call']).toMatchObject({ count: 3, errorCount: 1 });
+    expect(metrics.methodMetrics['resources/read'].count).toBe(3);
+    expect(metrics.methodMetrics['prompts/list']).toMatchObject({ count: 0, minDuration: 0 });
+    expect(metrics.toolMetrics.echo).toMatchObject({ count: 2, errorCount: 0 });
+    expect(metrics.toolMetrics.fail).toMatchObject({ count: 1, errorCount: 1 });
+    expect(Object.keys(metrics.resourceTemplateMetrics).sort()).toEqual(['file:///readme.md', 'users://{id}']);
+    expect(metrics.resourceTemplateMetrics['users://{id}'].count).toBe(2);
+    expect(metrics.promptMetrics.greeting.count).toBe(1);
+
+    const echo = metrics.toolMetrics.echo;
+    expect(echo.minDuration).toBeLessThanOrEqual(echo.averageDuration);
+    expect(echo.maxDuration).toBeGreaterThanOrEqual(echo.averageDuration);
+  });
+
+  it('should key resources read through a low-level Server by their URI', async () => {
+    const server = trackmcp(new Server(
+      { name: 'metrics-server', version: '1.0.0' },
+      { capabilities: { resources: {} } }
+    ));
+    server.setRequestHandler(ReadResourceRequestSchema, async request => ({
+      contents: [{ uri: request.params.uri, text: 'contents' }]
+    }));
+
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    await client.readResource({ uri: 'file:///a.txt' });
+    await client.readResource({ uri: 'file:///a.txt' });
+    await client.readResource({ uri: 'file:///b.txt' });
+    await client.close();
+
+    const metrics = getTracker(server)!.getCurrentMetrics();
+    expect(metrics.resourceTemplateMetrics['file:///a.txt'].count).toBe(2);
+    expect(metrics.resourceTemplateMetrics['file:///b.txt'].count).toBe(1);
+  });
+
+  it('should track count, errors and min, average and max duration in providers', () => {
+    const provider = new MemoryTelemetryProvider();
+    provider.recordEvent(requestEnd({ method: 'tools/call', toolName: 'search', success: true, duration: 10 }));
+    provider.recordEvent(requestEnd({ method: 'tools/call', toolName: 'search', success: false, duration: 30 }));
+    provider.recordEvent(requestEnd({ method: 'prompts/get', promptName: 'summary', success: true, duration: 5 }));
+
+    const metrics = provider.getMetrics();
+    expect(metrics.toolMetrics.search).toMatchObject({
+      count: 2,
+      errorCount: 1,
+      averageDuration: 20,
+      minDuration: 10,
+      maxDuration: 30
+    });
+    expect(metrics.methodMetrics['tools/call'].count).toBe(2);
+    expect(metrics.promptMetrics.summary.averageDuration).toBe(5);
+  });
+
+  it('should count each request once across the providers of a composite or manager', () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const events = [
+      requestEnd({ method: 'tools/call', toolName: 'search', success: true, duration: 10 }),
+      requestEnd({ method: 'tools/call', toolName: 'search', success: true, duration: 20 }),
+      requestEnd({ method: 'tools/call', toolName: 'search', success: true, duration: 30 }),
+      requestEnd({ method: 'tools/call', toolName: 'search', success: false, duration: 100 }),
+      requestEnd({ method: 'tools/call', toolName: 'fetch', success: true, duration: 50 })
+    ];
+    const createProviders = () => [
+      new MemoryTelemetryProvider(),
+      new ConsoleTelemetryProvider(),
+      new OTLPTTelemetryProvider()
+    ];
+
+    const expected = {
+      count: 4,
+      errorCount: 1,
+      averageDuration: 40,
+      minDuration: 10,
+      maxDuration: 100
+    };
+
+    const composite = new CompositeTelemetryProvider(createProviders(), { queue: false });
+    events.forEach(event => composite.recordEvent(event));
+    const metrics = composite.getMetrics();
+    expect(metrics.totalRequests).toBe(5);
+    expect(metrics.toolMetrics.search).toMatchObject(expected);
+    expect(metrics.toolMetrics.fetch.count).toBe(1);
+    expect(metrics.methodMetrics['tools/call'].count).toBe(5);
+    expect(metrics.averageDuration).toBe(42);
+
+    const manager = new DefaultTelemetryManager(createProviders());
+    events.forEach(event => manager.recordEvent(event));
+    manager.flush();
+    expect(manager.getMetrics().totalRequests).toBe(5);
+    expect(manager.getMetrics().toolMetrics.search).toMatchObject(expected);
+  });
+
+  it('should merge metrics of different events weighting averages by count', () => {
+    const first = new MemoryTelemetryProvider();
+    const second = new MemoryTelemetryProvider();
+    first.recordEvent(requestEnd({ method: 'tools/call', toolName: 'search', success: true, duration: 10 }));
+    first.recordEvent(requestEnd({ method: 'tools/call', toolName: 'search', success: true, duration: 20 }));
+    first.recordEvent(requestEnd({ method: 'tools/call', toolName: 'search', success: true, duration: 30 }));
+    second.recordEvent(requestEnd({ method: 'tools/call', toolName: 'search', success: false, duration: 100 }));
+
+    const merged = mergeMetrics([first.getMetrics(), second.getMetrics()]);
+    expect(merged.toolMetrics.search).toMatchObject({ count: 4, errorCount: 1, averageDuration: 40 });
+    expect(merged.totalRequests).toBe(4);
+  });
+});
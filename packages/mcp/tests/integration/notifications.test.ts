@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  NodeTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor
+} from '@opentelemetry/sdk-trace-node';
+import { SpanStatusCode } from '@opentelemetry/api';
+import { trackmcp } from '../../src/index.js';
+import { waitForTelemetryEvents } from '../utils/mcp-helpers.js';
+
+describe('Notification Instrumentation', () => {
+  const exporter = new InMemorySpanExporter();
+
+  beforeAll(() => {
+    const provider = new NodeTracerProvider({
+      spanProcessors: [new SimpleSpanProcessor(exporter)]
+    });
+    provider.register();
+  });
+
+  beforeEach(() => {
+    exporter.reset();
+  });
+
+  async function connect(register: (server: McpServer) => void) {
+    const mcpServer = trackmcp(new McpServer({ name: 'notify-server', version: '1.0.0' }));
+    register(mcpServer);
+
+    const client = new Client({ name: 'notify-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await mcpServer.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    return { mcpServer, client };
+  }
+
+  it('should record progress notifications as events on the request span', async () => {
+    const { client } = await connect(server => {
+      server.registerTool('index', {}, async (extra) => {
+        const progressToken = extra._meta?.progressToken;
+        if (progressToken !== undefined) {
+          for (const progress of [1, 2]) {
+            await extra.sendNotification({
+              method: 'notifications/progress',
+              params: { progressToken, progress, total: 2, message: `step ${progress}` }
+            });
+          }
+        }
+        return { content: [{ type: 'text', text: 'indexed' }] };
+      });
+    });
+
+    const updates: number[] = [];
+    await client.callTool({ name: 'index', arguments: {} }, undefined, {
+      onprogress: (progress) => updates.push(progress.progress)
+    });
+    await client.close();
+
+    expect(updates).toEqual([1, 2]);
+
+    const requestSpan = exporter.getFinishedSpans().find(s => s.name === 'mcp.tools/call')!;
+    const progressEvents = requestSpan.events.filter(e => e.name === 'mcp.progress');
+    expect(progressEvents).toHaveLength(2);
+    expect(progressEvents[1].attributes!['mcp.progress.progress']).toBe(2);
+    expect(progressEvents[1].attributes!['mcp.progress.total']).toBe(2);
+    expect(progressEvents[1].attributes!['mcp.progress.message']).toBe('step 2');
+  });
+
+  it('should end the request span with a cancelled status when the client cancels', async () => {
+    let release!: () => void;
+    const { client } = await connect(server => {
+      server.registerTool('slow', {}, async () => {
+        await new Promise<void>(resolve => { release = resolve; });
+        return { content: [{ type: 'text', text: 'too late' }] };
+      });
+    });
+
+    const controller = new AbortController();
+    const call = client.callTool({ name: 'slow', arguments: {} }, undefined, { signal: controller.signal });
+    await waitForTelemetryEvents(() => (release ? [release] : []), 1);
+
+    controller.abort('user gave up');
+    await expect(call).rejects.toThrow();
+    await waitForTelemetryEvents(
+      () => exporter.getFinishedSpans().filter(s => s.name === 'mcp.tools/call'),
+      1
+    );
+    release();
+    await client.close();
+
+    const requestSpans = exporter.getFinishedSpans().filter(s => s.name === 'mcp.tools/call');
+    expect(requestSpans).toHaveLength(1);
+    expect(requestSpans[0].status.code).toBe(SpanStatusCode.ERROR);
+    expect(requestSpans[0].status.message).toBe('cancelled: user gave up');
+    expect(requestSpans[0].attributes['mcp.cancelled']).toBe(true);
+    expect(requestSpans[0].attributes['mcp.error_code']).toBe('CANCELLED');
+  });
+
+  it('should record list_changed and resources/updated as session events', async () => {
+    const { mcpServer, client } = await connect(server => {
+      server.registerTool('first', {}, async () => ({ content: [] }));
+      server.registerResource('log', 'file:///log.txt', {}, async (uri) => ({
+        contents: [{ uri: uri.href, text: 'log' }]
+      }));
+    });
+
+    mcpServer.registerTool('second', {}, async () => ({ content: [] }));
+    await mcpServer.server.sendResourceUpdated({ uri: 'file:///log.txt' });
+    await client.close();
+
+    const sessionSpan = exporter.getFinishedSpans().find(s => s.name === 'mcp.session')!;
+    const listChanged = sessionSpan.events.find(e => e.name === 'notifications/tools/list_changed');
+    const updated = sessionSpan.events.find(e => e.name === 'notifications/resources/updated');
+
+    expect(listChanged!.attributes!['mcp.notification.direction']).toBe('outgoing');
+    expect(updated!.attributes!['mcp.resource_uri']).toBe('file:///log.txt');
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  NodeTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor
+} from '@opentelemetry/sdk-trace-node';
+import { DataPointType, MeterProvider, MetricReader, MetricData } from '@opentelemetry/sdk-metrics';
+import { trackmcp, getTracker, MCPTracker } from '../../src/index.js';
+
+class CollectingReader extends MetricReader {
+  protected onForceFlush(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  protected onShutdown(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  async getMetric(name: string): Promise<MetricData | undefined> {
+    const { resourceMetrics } = await this.collect();
+    return resourceMetrics.scopeMetrics.flatMap(scope => scope.metrics).find(m => m.descriptor.name === name);
+  }
+}
+
+describe('OpenTelemetry Metrics', () => {
+  const exporter = new InMemorySpanExporter();
+
+  beforeAll(() => {
+    const provider = new NodeTracerProvider({
+      spanProcessors: [new SimpleSpanProcessor(exporter)]
+    });
+    provider.register();
+  });
+
+  async function connectClient(reader: CollectingReader) {
+    const mcpServer = trackmcp(new McpServer({ name: 'metrics-server', version: '1.0.0' }), {
+      metricsEnabled: true,
+      metrics: { readers: [reader] }
+    });
+    mcpServer.registerTool('echo', {}, async () => ({ content: [{ type: 'text', text: 'echo' }] }));
+    mcpServer.registerTool('fail', {}, async () => ({ isError: true, content: [{ type: 'text', text: 'nope' }] }));
+
+    const client = new Client({ name: 'cursor-vscode', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await mcpServer.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    return { mcpServer, client };
+  }
+
+  it('should record request duration and count by method, tool, status and client', async () => {
+    const reader = new CollectingReader();
+    const { client } = await connectClient(reader);
+
+    await client.callTool({ name: 'echo', arguments: {} });
+    await client.callTool({ name: 'echo', arguments: {} });
+    await client.callTool({ name: 'fail', arguments: {} });
+    await client.close();
+
+    const duration = (await reader.getMetric('mcp.server.request.duration'))!;
+    expect(duration.dataPointType).toBe(DataPointType.HISTOGRAM);
+    expect(duration.descriptor.unit).toBe('s');
+    const echoPoint = duration.dataPoints.find(p => p.attributes['mcp.tool_name'] === 'echo')!;
+    expect(echoPoint.attributes).toEqual({
+      'mcp.method': 'tools/call',
+      'mcp.status': 'ok',
+      'mcp.tool_name': 'echo',
+      'mcp.client.name': 'cursor'
+    });
+    expect((echoPoint.value as { count: number }).count).toBe(2);
+
+    const requests = (await reader.getMetric('mcp.server.requests'))!;
+    const failed = requests.dataPoints.find(p => p.attributes['mcp.tool_name'] === 'fail')!;
+    expect(failed.attributes['mcp.status']).toBe('error');
+    expect(failed.value).toBe(1);
+
+    const active = (await reader.getMetric('mcp.server.active_requests'))!;
+    expect(active.dataPoints.every(p => p.value === 0)).toBe(true);
+  });
+
+  it('should record requests still in flight as failed on shutdown', async () => {
+    const reader = new CollectingReader();
+    // A meter the tracker does not own, so the reader outlives the tracker
+    const meterProvider = new MeterProvider({ readers: [reader] });
+    const mcpServer = trackmcp(new McpServer({ name: 'metrics-server', version: '1.0.0' }), {
+      metricsEnabled: true,
+      metrics: { meter: meterProvider.getMeter('test') }
+    });
+    let release!: () => void;
+    const released = new Promise<void>(resolve => { release = resolve; });
+    mcpServer.registerTool('wait', {}, async () => {
+      await released;
+      return { content: [{ type: 'text', text: 'done' }] };
+    });
+
+    const client = new Client({ name: 'cursor-vscode', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await mcpServer.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    const tracker = getTracker(mcpServer)!;
+    const pending = client.callTool({ name: 'wait', arguments: {} });
+    await vi.waitFor(async () => {
+      const active = (await reader.getMetric('mcp.server.active_requests'))!;
+      expect(active.dataPoints.find(p => p.attributes['mcp.method'] === 'tools/call')?.value).toBe(1);
+    });
+
+    await tracker.shutdown();
+
+    const active = (await reader.getMetric('mcp.server.active_requests'))!;
+    expect(active.dataPoints.every(p => p.value === 0)).toBe(true);
+    const requests = (await reader.getMetric('mcp.server.requests'))!;
+    const aborted = requests.dataPoints.find(p => p.attributes['mcp.tool_name'] === 'wait')!;
+    expect(aborted.attributes['mcp.status']).toBe('error');
+    expect(aborted.value).toBe(1);
+
+    release();
+    await pending;
+    await client.close();
+    await meterProvider.shutdown();
+  });
+
+  it('should report active sessions through the sessions gauge', async () => {
+    const reader = new CollectingReader();
+    const { client } = await connectClient(reader);
+
+    const open = (await reader.getMetric('mcp.server.sessions'))!;
+    expect(open.dataPoints[0].value).toBe(1);
+
+    await client.close();
+    const closed = (await reader.getMetric('mcp.server.sessions'))!;
+    expect(closed.dataPoints[0].value).toBe(0);
+  });
+
+  it('should keep exemplars that link durations to trace IDs', async () => {
+    const reader = new CollectingReader();
+    const { mcpServer, client } = await connectClient(reader);
+
+    exporter.reset();
+    await client.callTool({ name: 'echo', arguments: {} });
+    await client.close();
+
+    const span = exporter.getFinishedSpans().find(s => s.name === 'mcp.tools/call')!;
+    const exemplars = getTracker(mcpServer)!.getMetricsRecorder()!.getExemplars();
+    const exemplar = exemplars.find(e => e.attributes['mcp.tool_name'] === 'echo')!;
+    expect(exemplar.traceId).toBe(span.spanContext().traceId);
+    expect(exemplar.spanId).toBe(span.spanContext().spanId);
+  });
+
+  it('should export durations as an exponential histogram when configured', async () => {
+    const reader = new CollectingReader();
+    const mcpServer = trackmcp(new McpServer({ name: 'metrics-server', version: '1.0.0' }), {
+      metricsEnabled: true,
+      metrics: { readers: [reader], exponentialHistogram: true }
+    });
+    mcpServer.registerTool('echo', {}, async () => ({ content: [{ type: 'text', text: 'echo' }] }));
+
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await mcpServer.connect(serverTransport);
+    await client.connect(clientTransport);
+    await client.callTool({ name: 'echo', arguments: {} });
+    await client.close();
+
+    const duration = (await reader.getMetric('mcp.server.request.duration'))!;
+    expect(duration.dataPointType).toBe(DataPointType.EXPONENTIAL_HISTOGRAM);
+  });
+
+  it('should print metrics to stderr, not stdout, with consoleExport', async () => {
+    const stdout = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    const stderr = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    const tracker = new MCPTracker({ metricsEnabled: true, consoleExport: true });
+
+    tracker.getMetricsRecorder()!.requestStarted('tools/call');
+    await tracker.shutdown();
+
+    expect(stdout).not.toHaveBeenCalled();
+    expect(stderr).toHaveBeenCalledWith(expect.stringContaining("name: 'mcp.server.active_requests'"));
+    stdout.mockRestore();
+    stderr.mockRestore();
+  });
+
+  it('should not create instruments unless metricsEnabled is set', () => {
+    expect(new MCPTracker().getMetricsRecorder()).toBeUndefined();
+  });
+});
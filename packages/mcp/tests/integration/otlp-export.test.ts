@@ -0,0 +1,423 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { createServer, IncomingMessage, Server as HttpServer } from 'http';
+import { AddressInfo } from 'net';
+import { gunzipSync } from 'zlib';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Server as GrpcServer, ServerCredentials, Metadata } from '@grpc/grpc-js';
+import { OTLPTTelemetryProvider, TelemetryProviderFactory, ExportSpool } from '../../src/index.js';
+import { TelemetryEvent, TelemetryEventType } from '../../src/types/index.js';
+
+interface CollectedRequest {
+  path: string;
+  headers: IncomingMessage['headers'];
+  body: Buffer;
+}
+
+function requestEvents(): TelemetryEvent[] {
+  const spanContext = { traceId: '5b8efff798038103d269b633813fc60c', spanId: 'eee19b7ec3c1b174' };
+  return [
+    {
+      type: TelemetryEventType.REQUEST_START,
+      timestamp: 1_700_000_000_000,
+      data: { operationId: 'op_1', method: 'tools/call', kind: 'server' },
+      spanContext
+    },
+    {
+      type: TelemetryEventType.REQUEST_END,
+      timestamp: 1_700_000_000_042,
+      data: {
+        operationId: 'op_1',
+        method: 'tools/call',
+        toolName: 'search',
+        success: false,
+        duration: 42,
+        error: { code: 'TOOL_ERROR', message: 'index unavailable' }
+      },
+      spanContext
+    }
+  ];
+}
+
+describe('OTLP Telemetry Provider', () => {
+  let collector: HttpServer;
+  let endpoint: string;
+  let requests: CollectedRequest[] = [];
+  let respondWith = 200;
+  let failingPath: string | undefined;
+  let rejectedOperation: string | undefined;
+
+  beforeAll(async () => {
+    collector = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        requests.push({ path: req.url!, headers: req.headers, body: Buffer.concat(chunks) });
+        if (req.url?.includes('hang')) return;
+        const rejected = rejectedOperation && Buffer.concat(chunks).includes(rejectedOperation);
+        res.writeHead(req.url === failingPath ? 503 : rejected ? 400 : respondWith).end();
+      });
+    });
+    await new Promise<void>(resolve => collector.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(collector.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    collector.closeAllConnections();
+    await new Promise(resolve => collector.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    respondWith = 200;
+    failingPath = undefined;
+    rejectedOperation = undefined;
+  });
+
+  it('should export spans and log records as gzipped OTLP/HTTP JSON', async () => {
+    const provider = new OTLPTTelemetryProvider({
+      endpoint,
+      protocol: 'http/json',
+      headers: { authorization: 'Bearer collector-token' },
+      serviceName: 'search-server'
+    });
+    requestEvents().forEach(event => provider.recordEvent(event));
+
+    await provider.exportTraces();
+
+    expect(provider.getEvents()).toHaveLength(0);
+    const traces = requests.find(r => r.path === '/v1/traces')!;
+    const logs = requests.find(r => r.path === '/v1/logs')!;
+    expect(traces.headers['content-type']).toBe('application/json');
+    expect(traces.headers['content-encoding']).toBe('gzip');
+    expect(traces.headers.authorization).toBe('Bearer collector-token');
+
+    const tracePayload = JSON.parse(gunzipSync(traces.body).toString());
+    const resource = tracePayload.resourceSpans[0].resource;
+    expect(resource.attributes).toContainEqual({ key: 'service.name', value: { stringValue: 'search-server' } });
+
+    const [span] = tracePayload.resourceSpans[0].scopeSpans[0].spans;
+    expect(span.name).toBe('mcp.tools/call');
+    expect(span.traceId).toBe('5b8efff798038103d269b633813fc60c');
+    expect(span.status.message).toBe('index unavailable');
+    expect(span.attributes).toContainEqual({ key: 'mcp.tool_name', value: { stringValue: 'search' } });
+
+    const logPayload = JSON.parse(gunzipSync(logs.body).toString());
+    const logRecords = logPayload.resourceLogs[0].scopeLogs[0].logRecords;
+    expect(logRecords).toHaveLength(2);
+    expect(logRecords[1].severityText).toBe('ERROR');
+  });
+
+  it('should export uncompressed protobuf when compression is disabled', async () => {
+    const provider = new OTLPTTelemetryProvider({ endpoint: `${endpoint}/v1/traces`, compression: 'none' });
+    requestEvents().forEach(event => provider.recordEvent(event));
+
+    await provider.exportTraces();
+
+    const traces = requests.find(r => r.path === '/v1/traces')!;
+    expect(traces.headers['content-type']).toBe('application/x-protobuf');
+    expect(traces.headers['content-encoding']).toBeUndefined();
+    expect(traces.body.includes('mcp.tools/call')).toBe(true);
+    expect(requests.some(r => r.path === '/v1/logs')).toBe(true);
+  });
+
+  it('should read every response body so connections are reused', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    // A collector of its own, so no pooled connection from other tests is reused
+    let status = 200;
+    let connections = 0;
+    const responding = createServer((req, res) => {
+      // Large enough that an unread body holds the connection
+      req.resume().on('end', () => res.writeHead(status, { 'Content-Type': 'text/plain' }).end('x'.repeat(1 << 20)));
+    });
+    responding.on('connection', () => connections++);
+    await new Promise<void>(resolve => responding.listen(0, '127.0.0.1', resolve));
+    const provider = new OTLPTTelemetryProvider({
+      endpoint: `http://127.0.0.1:${(responding.address() as AddressInfo).port}`
+    });
+
+    for (status of [200, 400, 200]) {
+      requestEvents().forEach(event => provider.recordEvent(event));
+      await provider.exportTraces().catch(() => undefined);
+    }
+
+    // An unread body would need a connection per request; a request sent right
+    // after the previous response may still open a second one
+    expect(connections).toBeLessThanOrEqual(2);
+    await provider.shutdown();
+    responding.closeAllConnections();
+    await new Promise(resolve => responding.close(resolve));
+  });
+
+  it('should reject on collector errors and timeouts', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    respondWith = 503;
+    const failing = new OTLPTTelemetryProvider({ endpoint });
+    requestEvents().forEach(event => failing.recordEvent(event));
+    await expect(failing.exportTraces()).rejects.toThrow('status 503');
+
+    const hanging = new OTLPTTelemetryProvider({ endpoint: `${endpoint}/hang`, timeout: 50 });
+    requestEvents().forEach(event => hanging.recordEvent(event));
+    await expect(hanging.exportTraces()).rejects.toThrow();
+
+    error.mockRestore();
+  });
+
+  it('should give exported spans their own IDs, parented and linked to the tracer span', async () => {
+    const provider = new OTLPTTelemetryProvider({ endpoint, protocol: 'http/json', compression: 'none' });
+    const [start, end] = requestEvents();
+    provider.recordEvent({ ...start, spanContext: { ...start.spanContext!, parentSpanId: 'a1a2a3a4a5a6a7a8' } });
+    provider.recordEvent(end);
+
+    await provider.exportTraces();
+
+    const traces = JSON.parse(requests.find(r => r.path === '/v1/traces')!.body.toString());
+    const [span] = traces.resourceSpans[0].scopeSpans[0].spans;
+    expect(span.traceId).toBe('5b8efff798038103d269b633813fc60c');
+    expect(span.spanId).not.toBe('eee19b7ec3c1b174');
+    expect(span.parentSpanId).toBe('a1a2a3a4a5a6a7a8');
+    expect(span.links.map((link: { spanId: string }) => link.spanId)).toEqual(['eee19b7ec3c1b174']);
+
+    const logs = JSON.parse(requests.find(r => r.path === '/v1/logs')!.body.toString());
+    const records = logs.resourceLogs[0].scopeLogs[0].logRecords;
+    expect(records.map((record: { spanId: string }) => record.spanId)).toEqual([span.spanId, span.spanId]);
+  });
+
+  it('should retry and spool only the signal that failed', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const directory = await mkdtemp(join(tmpdir(), 'neonflare-spool-'));
+    const provider = new OTLPTTelemetryProvider({
+      endpoint,
+      retry: { maxRetries: 1, initialDelay: 1 },
+      spool: { directory }
+    });
+
+    failingPath = '/v1/logs';
+    requestEvents().forEach(event => provider.recordEvent(event));
+    await provider.exportTraces();
+    expect(requests.filter(r => r.path === '/v1/traces')).toHaveLength(1);
+    expect(requests.filter(r => r.path === '/v1/logs')).toHaveLength(2);
+
+    failingPath = undefined;
+    requests = [];
+    await provider.exportTraces();
+    expect(requests.map(r => r.path)).toEqual(['/v1/logs']);
+
+    await provider.shutdown();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should spool batches while the circuit breaker is open and replay them in order', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const directory = await mkdtemp(join(tmpdir(), 'neonflare-spool-'));
+    const provider = new OTLPTTelemetryProvider({
+      endpoint,
+      protocol: 'http/json',
+      compression: 'none',
+      retry: { maxRetries: 1, initialDelay: 1 },
+      circuitBreaker: { failureThreshold: 2, resetTimeout: 50 },
+      spool: { directory }
+    });
+    const exportBatch = async (operationId: string) => {
+      requestEvents().forEach(event => provider.recordEvent({ ...event, data: { ...event.data, operationId } }));
+      await provider.exportTraces();
+    };
+
+    respondWith = 503;
+    await exportBatch('op_1');
+    expect(provider.getCircuitState()).toBe('closed');
+    await exportBatch('op_2');
+    expect(provider.getCircuitState()).toBe('open');
+    // Two attempts per signal for op_1, then two for replaying its spooled traces
+    expect(requests).toHaveLength(6);
+
+    await exportBatch('op_3');
+    expect(requests).toHaveLength(6);
+    // One file per batch and signal
+    expect(await readdir(directory)).toHaveLength(6);
+
+    respondWith = 200;
+    requests = [];
+    await new Promise(resolve => setTimeout(resolve, 60));
+    await exportBatch('op_4');
+
+    expect(provider.getCircuitState()).toBe('closed');
+    expect(await readdir(directory)).toHaveLength(0);
+    const replayed = requests
+      .filter(r => r.path === '/v1/traces')
+      .map(r => JSON.parse(r.body.toString()).resourceSpans[0].scopeSpans[0].spans[0].name);
+    expect(replayed).toHaveLength(4);
+    const operations = requests
+      .filter(r => r.path === '/v1/logs')
+      .map(r => r.body.toString().match(/"op_\d"/)![0]);
+    expect(operations).toEqual(['"op_1"', '"op_2"', '"op_3"', '"op_4"']);
+
+    const transitions = provider.getEvents()
+      .filter(event => event.type === TelemetryEventType.CIRCUIT_STATE_CHANGE)
+      .map(event => [event.data.previousState, event.data.state]);
+    // Recorded after their batch was taken, so they go out with the next export
+    expect(transitions).toEqual([['open', 'half_open'], ['half_open', 'closed']]);
+    // The closed -> open change was spooled with op_3 and replayed
+    expect(requests.some(r => r.body.includes('circuit_state_change'))).toBe(true);
+
+    await provider.shutdown();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should drop batches the collector rejects without retrying or spooling them', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const directory = await mkdtemp(join(tmpdir(), 'neonflare-spool-'));
+    const provider = new OTLPTTelemetryProvider({
+      endpoint,
+      retry: { maxRetries: 2, initialDelay: 1 },
+      circuitBreaker: { failureThreshold: 1 },
+      spool: { directory }
+    });
+
+    respondWith = 400;
+    requestEvents().forEach(event => provider.recordEvent(event));
+    await expect(provider.exportTraces()).rejects.toThrow('status 400');
+
+    // One attempt per signal, nothing spooled, and the collector counts as reachable
+    expect(requests).toHaveLength(2);
+    expect(await readdir(directory)).toHaveLength(0);
+    expect(provider.getCircuitState()).toBe('closed');
+    expect(error).toHaveBeenCalledWith(expect.stringContaining('Dropping 2 events'), expect.anything());
+
+    await provider.shutdown();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should replay spooled batches past one the collector rejects', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const directory = await mkdtemp(join(tmpdir(), 'neonflare-spool-'));
+    const spool = new ExportSpool({ directory });
+    for (const operationId of ['op_1', 'op_2']) {
+      await spool.write(requestEvents().map(event => ({ ...event, data: { ...event.data, operationId } })), 'logs');
+    }
+    const provider = new OTLPTTelemetryProvider({
+      endpoint,
+      protocol: 'http/json',
+      compression: 'none',
+      retry: { maxRetries: 2, initialDelay: 1 },
+      spool: { directory }
+    });
+
+    rejectedOperation = 'op_1';
+    await provider.exportTraces();
+
+    const operations = requests.map(r => r.body.toString().match(/"op_\d"/)![0]);
+    expect(operations).toEqual(['"op_1"', '"op_2"']);
+    expect(await spool.size()).toBe(0);
+
+    await provider.shutdown();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should run concurrent exports one after another', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'neonflare-spool-'));
+    const spool = new ExportSpool({ directory });
+    for (const operationId of ['op_1', 'op_2']) {
+      await spool.write(requestEvents().map(event => ({ ...event, data: { ...event.data, operationId } })), 'logs');
+    }
+    const provider = new OTLPTTelemetryProvider({ endpoint, protocol: 'http/json', compression: 'none', spool: { directory } });
+
+    requestEvents().forEach(event => provider.recordEvent({ ...event, data: { ...event.data, operationId: 'op_3' } }));
+    await Promise.all([provider.exportTraces(), provider.exportTraces()]);
+
+    // Each spooled batch is replayed once, before the new batch
+    const operations = requests
+      .filter(r => r.path === '/v1/logs')
+      .map(r => r.body.toString().match(/"op_\d"/)![0]);
+    expect(operations).toEqual(['"op_1"', '"op_2"', '"op_3"']);
+    expect(await spool.size()).toBe(0);
+
+    await provider.shutdown();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should drop the oldest spooled batches over the size cap', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const directory = await mkdtemp(join(tmpdir(), 'neonflare-spool-'));
+    const spool = new ExportSpool({ directory, maxBytes: 1500 });
+    for (const operationId of ['op_1', 'op_2', 'op_3']) {
+      await spool.write(requestEvents().map(event => ({ ...event, data: { ...event.data, operationId } })));
+    }
+
+    const replayed: string[] = [];
+    expect(await spool.replay(async events => {
+      replayed.push(events[0].data.operationId);
+    })).toBe(2);
+    expect(replayed).toEqual(['op_2', 'op_3']);
+    expect(await spool.size()).toBe(0);
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should honor the otlp factory config', async () => {
+    const provider = TelemetryProviderFactory.createProvider({
+      type: 'otlp',
+      config: { otlp: { endpoint, protocol: 'http/json', timeout: 1000 } }
+    }) as OTLPTTelemetryProvider;
+    requestEvents().forEach(event => provider.recordEvent(event));
+
+    await provider.shutdown();
+
+    expect(requests.map(r => r.path).sort()).toEqual(['/v1/logs', '/v1/traces']);
+  });
+
+  it('should export over gRPC with metadata', async () => {
+    const received: Array<{ path: string; bytes: number; token?: string }> = [];
+    const server = new GrpcServer();
+    const handler = (path: string) => ({
+      path,
+      requestStream: false,
+      responseStream: false,
+      requestSerialize: (value: Buffer) => value,
+      requestDeserialize: (value: Buffer) => value,
+      responseSerialize: (value: Buffer) => value,
+      responseDeserialize: (value: Buffer) => value
+    });
+    server.addService(
+      {
+        ExportTraces: handler('/opentelemetry.proto.collector.trace.v1.TraceService/Export'),
+        ExportLogs: handler('/opentelemetry.proto.collector.logs.v1.LogsService/Export')
+      },
+      Object.fromEntries(['ExportTraces', 'ExportLogs'].map(name => [
+        name,
+        (
+          call: { request: Buffer; metadata: Metadata; getPath(): string },
+          callback: (error: null, response: Buffer) => void
+        ) => {
+          received.push({
+            path: call.getPath(),
+            bytes: call.request.length,
+            token: call.metadata.get('x-api-key')[0] as string | undefined
+          });
+          callback(null, Buffer.alloc(0));
+        }
+      ]))
+    );
+    const port = await new Promise<number>((resolve, reject) =>
+      server.bindAsync('127.0.0.1:0', ServerCredentials.createInsecure(), (error, boundPort) =>
+        error ? reject(error) : resolve(boundPort)
+      )
+    );
+
+    const provider = new OTLPTTelemetryProvider({
+      endpoint: `http://127.0.0.1:${port}`,
+      protocol: 'grpc',
+      headers: { 'x-api-key': 'grpc-key' }
+    });
+    requestEvents().forEach(event => provider.recordEvent(event));
+    await provider.shutdown();
+    server.forceShutdown();
+
+    expect(received.map(r => r.path).sort()).toEqual([
+      '/opentelemetry.proto.collector.logs.v1.LogsService/Export',
+      '/opentelemetry.proto.collector.trace.v1.TraceService/Export'
+    ]);
+    expect(received.every(r => r.bytes > 0 && r.token === 'grpc-key')).toBe(true);
+  });
+});
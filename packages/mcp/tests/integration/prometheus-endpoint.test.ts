@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeAll, afterEach, vi } from 'vitest';
+import { createServer, Server as HttpServer } from 'http';
+import { AddressInfo } from 'net';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  NodeTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor
+} from '@opentelemetry/sdk-trace-node';
+import {
+  trackmcp,
+  trackmcpClient,
+  getTracker,
+  ConfigurationManager,
+  MCPErrorType,
+  getErrorHandler,
+  OPENMETRICS_CONTENT_TYPE
+} from '../../src/index.js';
+import { MCPInstrumentationConfig } from '../../src/types/index.js';
+
+describe('Prometheus Endpoint', () => {
+  const exporter = new InMemorySpanExporter();
+  const servers: HttpServer[] = [];
+
+  beforeAll(() => {
+    const provider = new NodeTracerProvider({
+      spanProcessors: [new SimpleSpanProcessor(exporter)]
+    });
+    provider.register();
+  });
+
+  afterEach(async () => {
+    for (const server of servers.splice(0)) {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+
+  async function connectClient(config: MCPInstrumentationConfig) {
+    const mcpServer = trackmcp(new McpServer({ name: 'prometheus-server', version: '1.0.0' }), config);
+    mcpServer.registerTool('echo', {}, async () => ({ content: [{ type: 'text', text: 'echo' }] }));
+    mcpServer.registerTool('fail', {}, async () => ({ isError: true, content: [{ type: 'text', text: 'nope' }] }));
+
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await mcpServer.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    return { mcpServer, client };
+  }
+
+  function waitForListening(server: HttpServer): Promise<number> {
+    return new Promise(resolve => {
+      if (server.listening) {
+        resolve((server.address() as AddressInfo).port);
+      } else {
+        server.once('listening', () => resolve((server.address() as AddressInfo).port));
+      }
+    });
+  }
+
+  it('should serve per-method and per-tool counters and histograms from the built-in listener', async () => {
+    const { mcpServer, client } = await connectClient({
+      prometheus: { enabled: true, port: 0, host: '127.0.0.1' }
+    });
+    await client.callTool({ name: 'echo', arguments: {} });
+    await client.callTool({ name: 'echo', arguments: {} });
+    await client.callTool({ name: 'fail', arguments: {} });
+
+    const tracker = getTracker(mcpServer)!;
+    const port = await waitForListening(tracker.getPrometheusServer()!);
+    const response = await fetch(`http://127.0.0.1:${port}/metrics`);
+    const body = await response.text();
+
+    expect(response.headers.get('content-type')).toBe(OPENMETRICS_CONTENT_TYPE);
+    expect(body).toContain('# TYPE mcp_server_requests counter');
+    expect(body).toContain('mcp_server_requests_total{method="tools/call",tool="echo",status="ok"} 2');
+    expect(body).toContain('mcp_server_requests_total{method="tools/call",tool="fail",status="error"} 1');
+    expect(body).toContain('# TYPE mcp_server_request_duration_seconds histogram');
+    expect(body).toContain('mcp_server_request_duration_seconds_count{method="tools/call",tool="echo",status="ok"} 2');
+    expect(body).toMatch(/mcp_server_request_duration_seconds_bucket\{method="tools\/call",tool="echo",status="ok",le="[^"]+"\} [12] # \{trace_id="[0-9a-f]{32}",span_id="[0-9a-f]{16}"\}/);
+    expect(body).toContain('mcp_active_sessions 1');
+    expect(body.endsWith('# EOF\n')).toBe(true);
+
+    expect((await fetch(`http://127.0.0.1:${port}/other`)).status).toBe(404);
+
+    await client.close();
+    await tracker.shutdown();
+    expect(tracker.getPrometheusServer()).toBeUndefined();
+  });
+
+  it('should leave the listener to the server when a client shares its config', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const config: MCPInstrumentationConfig = { prometheus: { enabled: true, port: 0, host: '127.0.0.1' } };
+    const { mcpServer, client } = await connectClient(config);
+    const port = await waitForListening(getTracker(mcpServer)!.getPrometheusServer()!);
+
+    // Same config, now pointing at the port the server listens on
+    const clientTracker = getTracker(trackmcpClient(new Client({ name: 'agent', version: '1.0.0' }), {
+      prometheus: { ...config.prometheus, port }
+    }))!;
+    expect(clientTracker.getPrometheusServer()).toBeUndefined();
+    expect(clientTracker.getPrometheusCollector()).toBeUndefined();
+
+    await new Promise(resolve => setImmediate(resolve));
+    expect(warn).not.toHaveBeenCalled();
+    expect((await fetch(`http://127.0.0.1:${port}/metrics`)).status).toBe(200);
+
+    warn.mockRestore();
+    await client.close();
+    await getTracker(mcpServer)!.shutdown();
+  });
+
+  it('should mount the handler in an existing HTTP server', async () => {
+    const { mcpServer, client } = await connectClient({
+      prometheus: { enabled: true, listen: false, path: '/internal/metrics' }
+    });
+    await client.callTool({ name: 'echo', arguments: {} });
+
+    const tracker = getTracker(mcpServer)!;
+    expect(tracker.getPrometheusServer()).toBeUndefined();
+
+    const server = createServer(tracker.getPrometheusHandler());
+    servers.push(server);
+    server.listen(0, '127.0.0.1');
+    const port = await waitForListening(server);
+
+    const response = await fetch(`http://127.0.0.1:${port}/internal/metrics`);
+    expect(response.status).toBe(200);
+    expect(await response.text()).toContain('mcp_server_requests_total{method="tools/call",tool="echo",status="ok"} 1');
+    await client.close();
+  });
+
+  it('should include error handler statistics', async () => {
+    await getErrorHandler().handleError(new Error('Request timeout'));
+    const stats = getErrorHandler().getErrorStats();
+    const { mcpServer, client } = await connectClient({ prometheus: { enabled: true, listen: false } });
+
+    const body = getTracker(mcpServer)!.renderPrometheusMetrics();
+    expect(body).toContain('# TYPE mcp_errors counter');
+    expect(body).toContain(`mcp_errors_total{type="${MCPErrorType.TIMEOUT}"} ${stats[MCPErrorType.TIMEOUT].count}`);
+    await client.close();
+  });
+
+  it('should read the prometheus block from environment variables', () => {
+    process.env.NEONFLARE_PROMETHEUS_ENABLED = 'true';
+    process.env.NEONFLARE_PROMETHEUS_PORT = '9100';
+    process.env.NEONFLARE_PROMETHEUS_PATH = '/scrape';
+    try {
+      const manager = new ConfigurationManager({ prometheus: { host: '0.0.0.0' } });
+      expect(manager.get('prometheus')).toEqual({ enabled: true, port: 9100, host: '0.0.0.0', path: '/scrape' });
+      expect(manager.validate().valid).toBe(true);
+    } finally {
+      delete process.env.NEONFLARE_PROMETHEUS_ENABLED;
+      delete process.env.NEONFLARE_PROMETHEUS_PORT;
+      delete process.env.NEONFLARE_PROMETHEUS_PATH;
+    }
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { spawn } from 'child_process';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { createServer, AddressInfo, Server } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { trace, context as otelContext, propagation } from '@opentelemetry/api';
+import { RotelManager, RotelAgentOptions, RotelModule, createMCPInstrumentation } from '../../src/index.js';
+import { MCPInstrumentationConfig } from '../../src/types/index.js';
+
+function createFakeRotel(startResults: unknown[] = [true]) {
+  const agents: Array<{ options: Record<string, unknown>; stopped: boolean }> = [];
+  let starts = 0;
+
+  const module: RotelModule = {
+    Rotel: class {
+      private state: { options: Record<string, unknown>; stopped: boolean };
+
+      constructor(options: Record<string, unknown>) {
+        this.state = { options, stopped: false };
+        agents.push(this.state);
+      }
+
+      start() {
+        const result = startResults[Math.min(starts++, startResults.length - 1)];
+        if (result instanceof Error) throw result;
+        return result;
+      }
+
+      stop() {
+        this.state.stopped = true;
+      }
+    }
+  };
+
+  return { module, agents };
+}
+
+describe('Rotel Lifecycle', () => {
+  const config: MCPInstrumentationConfig = {
+    otlpEndpoint: 'https://api.example.com:4317',
+    otlpHeaders: { 'x-api-key': 'secret' },
+    rotel: { enabled: true, maxStartAttempts: 2 }
+  };
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    trace.disable();
+    otelContext.disable();
+    propagation.disable();
+  });
+
+  it('should point the tracer at the local receiver and keep the upstream exporter for Rotel', () => {
+    const applied = RotelManager.applyReceiver(config);
+
+    expect(applied.otlpEndpoint).toBe('http://localhost:4317');
+    expect(applied.otlpHeaders).toBeUndefined();
+    expect(applied.sdk?.enabled).toBe(true);
+
+    const options = new RotelManager(applied).getAgentOptions();
+    expect(options).toEqual({
+      enabled: true,
+      otlp_grpc_endpoint: 'localhost:4317',
+      pid_file: expect.stringMatching(/neonflare-rotel-\d+\.pid$/),
+      exporter: {
+        endpoint: 'https://api.example.com:4317',
+        protocol: 'grpc',
+        headers: { 'x-api-key': 'secret' }
+      }
+    });
+  });
+
+  it('should start the agent and stop it cleanly', async () => {
+    const { module, agents } = createFakeRotel();
+    const manager = new RotelManager(RotelManager.applyReceiver(config), async () => module);
+
+    expect(await manager.start()).toBe(true);
+    expect(manager.isRunning()).toBe(true);
+
+    await manager.stop();
+    expect(manager.isRunning()).toBe(false);
+    expect(agents[0].stopped).toBe(true);
+  });
+
+  it('should retry a failed start and give up after maxStartAttempts', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { module, agents } = createFakeRotel([new Error('port in use'), false]);
+    const manager = new RotelManager(RotelManager.applyReceiver(config), async () => module);
+
+    expect(await manager.start()).toBe(false);
+    expect(agents).toHaveLength(2);
+    expect(warn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should restart the agent once its receiver stops accepting connections', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const probe = createServer();
+    await new Promise<void>(resolve => probe.listen(0, '127.0.0.1', resolve));
+    const port = (probe.address() as AddressInfo).port;
+    await new Promise(resolve => probe.close(resolve));
+
+    // Each agent serves the receiver port, like the real agent process
+    const receivers: Server[] = [];
+    const module: RotelModule = {
+      Rotel: class {
+        private receiver = createServer(socket => socket.destroy());
+
+        async start() {
+          await new Promise<void>(resolve => this.receiver.listen(port, '127.0.0.1', resolve));
+          receivers.push(this.receiver);
+          return true;
+        }
+
+        stop() {
+          if (this.receiver.listening) this.receiver.close();
+        }
+      }
+    };
+    const manager = new RotelManager(
+      RotelManager.applyReceiver({
+        ...config,
+        rotel: { ...config.rotel, receiverEndpoint: `127.0.0.1:${port}`, healthCheckInterval: 20 }
+      }),
+      async () => module
+    );
+
+    expect(await manager.start()).toBe(true);
+    await new Promise(resolve => setTimeout(resolve, 60));
+    expect(receivers).toHaveLength(1);
+
+    // The agent process exits on its own
+    await new Promise(resolve => receivers[0].close(resolve));
+    await vi.waitFor(() => expect(receivers).toHaveLength(2), { timeout: 2000 });
+    expect(manager.isRunning()).toBe(true);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('restarting'));
+
+    await manager.stop();
+    expect(receivers[1].listening).toBe(false);
+  });
+
+  it('should kill the agent synchronously on exit and stop it gracefully before exit', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'neonflare-rotel-'));
+    const child = spawn(process.execPath, ['-e', 'setInterval(() => {}, 1000)']);
+    let stops = 0;
+    const module: RotelModule = {
+      Rotel: class {
+        constructor(private options: RotelAgentOptions) {}
+
+        async start() {
+          await writeFile(this.options.pid_file, String(child.pid));
+          return true;
+        }
+
+        stop() {
+          stops++;
+        }
+      }
+    };
+    const managed = (pidFile: string) => new RotelManager(
+      RotelManager.applyReceiver({
+        ...config,
+        rotel: { ...config.rotel, healthCheckInterval: 0, config: { pid_file: pidFile } }
+      }),
+      async () => module
+    );
+    const listenersAdded = async (event: 'exit' | 'beforeExit', start: () => Promise<boolean>) => {
+      const before = process.listeners(event);
+      await start();
+      return process.listeners(event).filter(listener => !before.includes(listener));
+    };
+    const signalListeners = process.listenerCount('SIGTERM');
+
+    // A graceful stop can finish while the event loop is still running
+    const graceful = managed(join(directory, 'graceful.pid'));
+    const [beforeExit] = await listenersAdded('beforeExit', () => graceful.start());
+    beforeExit(0);
+    await vi.waitFor(() => expect(stops).toBe(1));
+    expect(graceful.isRunning()).toBe(false);
+
+    // On exit nothing asynchronous runs, so the process is killed right away
+    const exiting = managed(join(directory, 'exiting.pid'));
+    const exited = new Promise(resolve => child.once('exit', (_code, signal) => resolve(signal)));
+    const [exit] = await listenersAdded('exit', () => exiting.start());
+    exit(0);
+    expect(exiting.isRunning()).toBe(false);
+    expect(await exited).toBe('SIGTERM');
+    expect(stops).toBe(1);
+    expect(process.listenerCount('SIGTERM')).toBe(signalListeners);
+
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should keep running without Rotel when the package cannot be loaded', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const manager = new RotelManager(config, async () => {
+      throw new Error('Cannot find module');
+    });
+
+    expect(await manager.start()).toBe(false);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('[Rotel]'), expect.any(Error));
+  });
+
+  it('should stop Rotel when the instrumentation shuts down', async () => {
+    vi.spyOn(RotelManager.prototype, 'start').mockResolvedValue(true);
+    const stop = vi.spyOn(RotelManager.prototype, 'stop').mockResolvedValue();
+
+    const instrumentation = createMCPInstrumentation({ ...config, sdk: { registerGlobal: false } });
+    const tracker = instrumentation.getTracker();
+    expect(tracker.getConfig().otlpEndpoint).toBe('http://localhost:4317');
+    expect(tracker.getTracerProvider()).toBeDefined();
+
+    await instrumentation.shutdown();
+    expect(stop).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { trace, context as otelContext, propagation } from '@opentelemetry/api';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor
+} from '@opentelemetry/sdk-trace-node';
+import { MCPTracker } from '../../src/index.js';
+import { MCPInstrumentationConfig } from '../../src/types/index.js';
+
+describe('SDK Bootstrap', () => {
+  afterEach(() => {
+    trace.disable();
+    otelContext.disable();
+    propagation.disable();
+  });
+
+  function runOperation(tracker: MCPTracker) {
+    const context = tracker.createOperationContext('tools/list');
+    tracker.startMCPSpan('tools/list', context);
+    tracker.endMCPSpan(context.operationId, {
+      success: true,
+      data: { tools: [] },
+      duration: 1,
+      timestamp: Date.now()
+    });
+  }
+
+  function createTracker(exporter: InMemorySpanExporter, config: MCPInstrumentationConfig = {}) {
+    return new MCPTracker({
+      ...config,
+      sdk: {
+        enabled: true,
+        registerGlobal: false,
+        spanProcessors: [new SimpleSpanProcessor(exporter)],
+        ...config.sdk
+      }
+    });
+  }
+
+  it('should export spans with a resource built from the config', async () => {
+    const exporter = new InMemorySpanExporter();
+    const tracker = createTracker(exporter, {
+      serviceName: 'search-server',
+      serviceVersion: '2.3.0',
+      projectId: 'proj_xyz',
+      defaultAttributes: { 'deployment.environment': 'test' }
+    });
+
+    runOperation(tracker);
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.name).toBe('mcp.tools/list');
+    expect(span.resource.attributes['service.name']).toBe('search-server');
+    expect(span.resource.attributes['service.version']).toBe('2.3.0');
+    expect(span.resource.attributes['neonflare.project_id']).toBe('proj_xyz');
+    expect(span.resource.attributes['deployment.environment']).toBe('test');
+    expect(span.resource.attributes['telemetry.sdk.language']).toBe('nodejs');
+
+    await tracker.shutdown();
+    expect(tracker.getTracerProvider()).toBeUndefined();
+  });
+
+  it('should apply the sampling rate to root spans', () => {
+    const exporter = new InMemorySpanExporter();
+    const tracker = createTracker(exporter, { samplingRate: 0 });
+
+    runOperation(tracker);
+
+    expect(exporter.getFinishedSpans()).toHaveLength(0);
+  });
+
+  it('should use a tracer passed in the config instead of building a provider', () => {
+    const exporter = new InMemorySpanExporter();
+    const provider = new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] });
+    const tracker = createTracker(new InMemorySpanExporter(), { tracer: provider.getTracer('host') });
+
+    runOperation(tracker);
+
+    expect(tracker.getTracerProvider()).toBeUndefined();
+    expect(exporter.getFinishedSpans()).toHaveLength(1);
+  });
+
+  it('should register the provider globally by default', () => {
+    const exporter = new InMemorySpanExporter();
+    const tracker = createTracker(exporter, { sdk: { registerGlobal: true } });
+
+    trace.getTracer('host-app').startSpan('host-span').end();
+    runOperation(tracker);
+
+    expect(exporter.getFinishedSpans().map(s => s.name)).toEqual(['host-span', 'mcp.tools/list']);
+  });
+
+  it('should keep the first global registration and warn for later ones', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const first = new InMemorySpanExporter();
+    const second = new InMemorySpanExporter();
+    createTracker(first, { sdk: { registerGlobal: true } });
+    const secondTracker = createTracker(second, { sdk: { registerGlobal: true } });
+
+    trace.getTracer('host-app').startSpan('host-span').end();
+    runOperation(secondTracker);
+
+    expect(warn).toHaveBeenCalledOnce();
+    expect(first.getFinishedSpans().map(s => s.name)).toEqual(['host-span']);
+    expect(second.getFinishedSpans().map(s => s.name)).toEqual(['mcp.tools/list']);
+    warn.mockRestore();
+  });
+
+  it('should print spans to stderr, not stdout', () => {
+    const stdout = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    const stderr = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    const tracker = createTracker(new InMemorySpanExporter(), { consoleExport: true });
+
+    runOperation(tracker);
+
+    expect(stdout).not.toHaveBeenCalled();
+    expect(stderr).toHaveBeenCalledWith(expect.stringContaining("name: 'mcp.tools/list'"));
+    stdout.mockRestore();
+    stderr.mockRestore();
+  });
+
+  it('should leave the global provider alone when the SDK is not enabled', () => {
+    const tracker = new MCPTracker();
+
+    expect(tracker.getTracerProvider()).toBeUndefined();
+  });
+});
@@ -1,7 +1,8 @@
 import { describe, it, expect } from 'vitest';
 import { trackmcp, getInstrumentation, getTracker, getContextInjector } from '../../src/index.js';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
-import { createTestServer, waitForTelemetryEvents, assertTelemetryEvents } from '../utils/mcp-helpers.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { createTestServer, createListToolsRequest, invokeHandlerDirectly, assertTelemetryEvents } from '../utils/mcp-helpers.js';
 
 describe('Server Wrapping Integration', () => {
   describe('Basic Wrapping', () => {
@@ -65,6 +66,69 @@ describe('Server Wrapping Integration', () => {
     });
   });
 
+  describe('Pre-registered Handlers', () => {
+    it('should wrap the initialize and ping handlers installed by the SDK', async () => {
+      const server = new Server(
+        {
+          name: 'builtin-handlers-server',
+          version: '1.0.0'
+        },
+        {
+          capabilities: {
+            tools: {}
+          }
+        }
+      );
+
+      trackmcp(server, { projectId: 'proj_builtin' });
+
+      await invokeHandlerDirectly(server, 'ping', { method: 'ping', id: 'req-ping' });
+      await invokeHandlerDirectly(server, 'initialize', {
+        method: 'initialize',
+        id: 'req-init',
+        params: {
+          protocolVersion: '2025-06-18',
+          capabilities: {},
+          clientInfo: { name: 'test-client', version: '1.0.0' }
+        }
+      });
+
+      const events = getTracker(server)!.getTelemetryEvents();
+      assertTelemetryEvents(events, { type: 'request_start', method: 'ping', projectId: 'proj_builtin' });
+      assertTelemetryEvents(events, { type: 'request_start', method: 'initialize' });
+      expect(events.filter(e => e.type === 'request_end')).toHaveLength(2);
+    });
+
+    it('should wrap handlers registered before trackmcp', async () => {
+      const server = createTestServer();
+
+      trackmcp(server, { projectId: 'proj_preregistered' });
+
+      const result = await invokeHandlerDirectly(server, 'tools/list', {
+        method: 'tools/list',
+        ...createListToolsRequest('req-list')
+      });
+
+      expect(result.tools).toHaveLength(1);
+
+      const events = getTracker(server)!.getTelemetryEvents();
+      assertTelemetryEvents(events, { type: 'request_start', method: 'tools/list' });
+      assertTelemetryEvents(events, { type: 'request_end', success: true });
+    });
+
+    it('should not wrap handlers twice when re-registered after trackmcp', async () => {
+      const server = createTestServer();
+
+      trackmcp(server);
+
+      server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: [] }));
+      await invokeHandlerDirectly(server, 'tools/list', { method: 'tools/list', params: {} });
+
+      const events = getTracker(server)!.getTelemetryEvents();
+      expect(events.filter(e => e.type === 'request_start')).toHaveLength(1);
+    });
+  });
+
   describe('Context Injection Integration', () => {
     it('should attach context injector with proper configuration', () => {
       const server = new Server(
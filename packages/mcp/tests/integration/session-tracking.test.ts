@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { InitializeResultSchema, LATEST_PROTOCOL_VERSION } from '@modelcontextprotocol/sdk/types.js';
+import {
+  NodeTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor
+} from '@opentelemetry/sdk-trace-node';
+import { trackmcp, getTracker, MCPTracker } from '../../src/index.js';
+import { MCPInstrumentationConfig, TelemetryEventType } from '../../src/types/index.js';
+
+describe('Session Tracking', () => {
+  const exporter = new InMemorySpanExporter();
+
+  beforeAll(() => {
+    const provider = new NodeTracerProvider({
+      spanProcessors: [new SimpleSpanProcessor(exporter)]
+    });
+    provider.register();
+  });
+
+  beforeEach(() => {
+    exporter.reset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function connect(config?: MCPInstrumentationConfig) {
+    const mcpServer = trackmcp(new McpServer({ name: 'session-server', version: '1.0.0' }), config);
+    mcpServer.registerTool('echo', {}, async () => ({ content: [{ type: 'text', text: 'echo' }] }));
+    mcpServer.registerTool('fail', {}, async () => {
+      throw new Error('nope');
+    });
+
+    const client = new Client({ name: 'session-client', version: '3.1.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await mcpServer.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    return { mcpServer, client, tracker: getTracker(mcpServer)! };
+  }
+
+  it('should start a session on initialize with client details', async () => {
+    const { tracker, client } = await connect();
+    const [session] = tracker.getSessionManager().getActiveSessions();
+
+    expect(session.clientInfo).toEqual({ name: 'session-client', version: '3.1.0' });
+    expect(session.protocolVersion).toBeDefined();
+    expect(session.capabilities).toBeDefined();
+    expect(tracker.getCurrentMetrics().activeSessions).toBe(1);
+
+    const startEvent = tracker.getTelemetryEvents().find(e => e.type === TelemetryEventType.SESSION_START);
+    expect(startEvent!.data.sessionId).toBe(session.sessionId);
+
+    await client.close();
+  });
+
+  it('should link request spans to the session span and end it when the transport closes', async () => {
+    const { tracker, client } = await connect();
+    const { sessionId } = tracker.getSessionManager().getActiveSessions()[0];
+
+    await client.callTool({ name: 'echo', arguments: {} });
+    await client.listTools();
+    await client.close();
+
+    const spans = exporter.getFinishedSpans();
+    const sessionSpan = spans.find(s => s.name === 'mcp.session')!;
+    expect(sessionSpan.attributes['mcp.session_id']).toBe(sessionId);
+    expect(sessionSpan.attributes['mcp.client.name']).toBe('session-client');
+    expect(sessionSpan.attributes['mcp.session.request_count']).toBe(3); // initialize, tools/call, tools/list
+    expect(sessionSpan.attributes['mcp.session.end_reason']).toBe('transport_closed');
+
+    const callSpan = spans.find(s => s.name === 'mcp.tools/call')!;
+    expect(callSpan.attributes['mcp.session_id']).toBe(sessionId);
+    expect(callSpan.links[0].context.spanId).toBe(sessionSpan.spanContext().spanId);
+
+    expect(tracker.getCurrentMetrics().activeSessions).toBe(0);
+    const endEvent = tracker.getTelemetryEvents().find(e => e.type === TelemetryEventType.SESSION_END);
+    expect(endEvent!.data.reason).toBe('transport_closed');
+  });
+
+  it('should replace the current session when initialize is repeated without a session ID', async () => {
+    const { tracker, client } = await connect();
+    const [first] = tracker.getSessionManager().getActiveSessions();
+
+    await client.request({
+      method: 'initialize',
+      params: {
+        protocolVersion: LATEST_PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: { name: 'session-client', version: '3.2.0' }
+      }
+    }, InitializeResultSchema);
+
+    const active = tracker.getSessionManager().getActiveSessions();
+    expect(active).toHaveLength(1);
+    expect(active[0].sessionId).not.toBe(first.sessionId);
+    expect(active[0].clientInfo?.version).toBe('3.2.0');
+
+    const ended = exporter.getFinishedSpans().filter(s => s.name === 'mcp.session');
+    expect(ended).toHaveLength(1);
+    expect(ended[0].attributes['mcp.session_id']).toBe(first.sessionId);
+    expect(ended[0].attributes['mcp.session.end_reason']).toBe('replaced');
+
+    await client.close();
+    expect(tracker.getSessionManager().getActiveSessionCount()).toBe(0);
+  });
+
+  it('should not track sessions when disabled', async () => {
+    const { tracker, client } = await connect({ session: { enabled: false } });
+
+    await client.callTool({ name: 'echo', arguments: {} });
+
+    expect(tracker.getSessionManager().getActiveSessionCount()).toBe(0);
+    expect(exporter.getFinishedSpans().find(s => s.name === 'mcp.tools/call')!.links).toHaveLength(0);
+
+    await client.close();
+  });
+
+  it('should count errors and end idle sessions', async () => {
+    vi.useFakeTimers();
+    const tracker = new MCPTracker({ session: { idleTimeout: 1000 } });
+    const sessions = tracker.getSessionManager();
+    const { sessionId } = sessions.startSession({ sessionId: 'session-idle' });
+
+    const context = tracker.createOperationContext('tools/call', 'req-1', { name: 'fail' });
+    context.sessionId = sessionId;
+    tracker.startMCPSpan('tools/call', context);
+    tracker.endMCPSpan(context.operationId, {
+      success: false,
+      error: { code: 'E', message: 'failed' },
+      duration: 1,
+      timestamp: Date.now()
+    });
+
+    vi.advanceTimersByTime(999);
+    expect(sessions.getSession(sessionId)!.errorCount).toBe(1);
+
+    vi.advanceTimersByTime(1);
+    expect(sessions.getSession(sessionId)).toBeUndefined();
+
+    const sessionSpan = exporter.getFinishedSpans().find(s => s.name === 'mcp.session')!;
+    expect(sessionSpan.attributes['mcp.session.error_count']).toBe(1);
+    expect(sessionSpan.attributes['mcp.session.end_reason']).toBe('idle_timeout');
+  });
+
+  it('should end a session replaced by one with the same ID', () => {
+    const sessions = new MCPTracker().getSessionManager();
+    sessions.startSession({ sessionId: 'session-1' });
+    sessions.startSession({ sessionId: 'session-1' });
+
+    const sessionSpans = exporter.getFinishedSpans().filter(s => s.name === 'mcp.session');
+    expect(sessionSpans).toHaveLength(1);
+    expect(sessionSpans[0].attributes['mcp.session.end_reason']).toBe('replaced');
+    expect(sessions.getActiveSessionCount()).toBe(1);
+  });
+
+  it('should end active sessions on shutdown', async () => {
+    const tracker = new MCPTracker();
+    tracker.getSessionManager().startSession();
+
+    await tracker.shutdown();
+
+    const sessionSpan = exporter.getFinishedSpans().find(s => s.name === 'mcp.session')!;
+    expect(sessionSpan.attributes['mcp.session.end_reason']).toBe('shutdown');
+  });
+});
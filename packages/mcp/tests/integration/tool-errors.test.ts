@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CallToolRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  NodeTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor
+} from '@opentelemetry/sdk-trace-node';
+import { SpanStatusCode } from '@opentelemetry/api';
+import { trackmcp, getTracker, redactSensitiveText } from '../../src/index.js';
+
+describe('Tool Result Errors', () => {
+  const exporter = new InMemorySpanExporter();
+
+  beforeAll(() => {
+    const provider = new NodeTracerProvider({
+      spanProcessors: [new SimpleSpanProcessor(exporter)]
+    });
+    provider.register();
+  });
+
+  beforeEach(() => {
+    exporter.reset();
+  });
+
+  async function connect(server: Server | McpServer) {
+    const client = new Client({ name: 'errors-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+    return client;
+  }
+
+  it('should mark isError results as failures with redacted error text', async () => {
+    const mcpServer = trackmcp(new McpServer({ name: 'errors-server', version: '1.0.0' }));
+    mcpServer.registerTool('fetch', {}, async () => ({
+      isError: true,
+      content: [{ type: 'text', text: 'Upstream rejected api_key=abc123secret' }]
+    }));
+
+    const client = await connect(mcpServer);
+    const result = await client.callTool({ name: 'fetch', arguments: {} });
+    await client.close();
+
+    expect(result.isError).toBe(true);
+
+    const requestSpan = exporter.getFinishedSpans().find(s => s.name === 'mcp.tools/call')!;
+    expect(requestSpan.status.code).toBe(SpanStatusCode.ERROR);
+    expect(requestSpan.status.message).toBe('Upstream rejected api_key=***');
+    expect(requestSpan.attributes['mcp.success']).toBe(false);
+    expect(requestSpan.attributes['mcp.error_code']).toBe('TOOL_ERROR');
+    expect(requestSpan.attributes['mcp.tool.error_kind']).toBe('result');
+
+    const toolSpan = exporter.getFinishedSpans().find(s => s.name === 'mcp.tool.fetch')!;
+    expect(toolSpan.status.code).toBe(SpanStatusCode.ERROR);
+    expect(toolSpan.attributes['mcp.tool.error_kind']).toBe('result');
+    expect(toolSpan.attributes['mcp.error_code']).toBe('TOOL_ERROR');
+
+    const metrics = getTracker(mcpServer)!.getCurrentMetrics();
+    expect(metrics.failedRequests).toBe(1);
+  });
+
+  it('should mark the tool span failed for an isError result without text', async () => {
+    const mcpServer = trackmcp(new McpServer({ name: 'errors-server', version: '1.0.0' }));
+    const tool = mcpServer.registerTool('fetch', {}, async () => ({ content: [] }));
+    tool.update({ callback: async () => ({ isError: true, content: [] }) });
+
+    const client = await connect(mcpServer);
+    await client.callTool({ name: 'fetch', arguments: {} });
+    await client.close();
+
+    const toolSpan = exporter.getFinishedSpans().find(s => s.name === 'mcp.tool.fetch')!;
+    expect(toolSpan.status).toEqual({ code: SpanStatusCode.ERROR, message: 'Tool returned an error result' });
+    expect(toolSpan.attributes['mcp.error_code']).toBe('TOOL_ERROR');
+    expect(toolSpan.attributes['mcp.error_message']).toBe('Tool returned an error result');
+  });
+
+  it('should record thrown errors from a low-level handler as exceptions', async () => {
+    const server = trackmcp(new Server(
+      { name: 'errors-server', version: '1.0.0' },
+      { capabilities: { tools: {} } }
+    ));
+    server.setRequestHandler(CallToolRequestSchema, async () => {
+      throw new Error('disk full');
+    });
+
+    const client = await connect(server);
+    await expect(client.callTool({ name: 'write', arguments: {} })).rejects.toThrow();
+    await client.close();
+
+    const requestSpan = exporter.getFinishedSpans().find(s => s.name === 'mcp.tools/call')!;
+    expect(requestSpan.status.code).toBe(SpanStatusCode.ERROR);
+    expect(requestSpan.attributes['mcp.tool.error_kind']).toBe('exception');
+  });
+
+  it('should redact credentials from error text', () => {
+    expect(redactSensitiveText('Authorization: Bearer eyJhbGciOi.payload')).toBe('Authorization: Bearer ***');
+    expect(redactSensitiveText('connect to postgres://admin:hunter2@db:5432 failed'))
+      .toBe('connect to postgres://***:***@db:5432 failed');
+    expect(redactSensitiveText('{"password": "hunter2"}')).toBe('{"password": "***"}');
+    expect(redactSensitiveText('key sk-ant-REDACTED rejected')).toBe('key *** rejected');
+    expect(redactSensitiveText('file not found')).toBe('file not found');
+  });
+});
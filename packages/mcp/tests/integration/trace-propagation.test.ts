@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
+  ListRootsRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import {
+  NodeTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor
+} from '@opentelemetry/sdk-trace-node';
+import { context as otelContext, propagation, trace, SpanKind } from '@opentelemetry/api';
+import { trackmcp, trackmcpClient, extractTraceContext, injectTraceContext } from '../../src/index.js';
+import { invokeHandlerDirectly } from '../utils/mcp-helpers.js';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const PARENT_SPAN_ID = '00f067aa0ba902b7';
+const TRACEPARENT = `00-${TRACE_ID}-${PARENT_SPAN_ID}-01`;
+
+describe('Trace Context Propagation', () => {
+  const exporter = new InMemorySpanExporter();
+
+  beforeAll(() => {
+    const provider = new NodeTracerProvider({
+      spanProcessors: [new SimpleSpanProcessor(exporter)]
+    });
+    // Registers the default W3C trace context and baggage propagators
+    provider.register();
+  });
+
+  beforeEach(() => {
+    exporter.reset();
+  });
+
+  it('should round-trip trace context and baggage through _meta', () => {
+    const ctx = extractTraceContext({ traceparent: TRACEPARENT, baggage: 'tenant=acme' });
+    expect(trace.getSpanContext(ctx)?.traceId).toBe(TRACE_ID);
+
+    const params = injectTraceContext({ name: 'search', _meta: { progressToken: 1 } }, ctx);
+    expect(params!._meta).toEqual({
+      progressToken: 1,
+      traceparent: TRACEPARENT,
+      baggage: 'tenant=acme'
+    });
+  });
+
+  it('should leave params untouched when there is no trace context', () => {
+    const params = { name: 'search' };
+    expect(injectTraceContext(params, otelContext.active())).toBe(params);
+    expect(extractTraceContext(undefined)).toBe(otelContext.active());
+  });
+
+  it('should parent server spans on the traceparent in _meta and expose baggage', async () => {
+    const mcpServer = new McpServer({ name: 'propagation-server', version: '1.0.0' });
+    trackmcp(mcpServer);
+
+    let tenant: string | undefined;
+    mcpServer.registerTool('whoami', {}, async () => {
+      tenant = propagation.getActiveBaggage()?.getEntry('tenant')?.value;
+      return { content: [{ type: 'text', text: 'ok' }] };
+    });
+
+    await invokeHandlerDirectly(mcpServer.server, 'tools/call', {
+      method: 'tools/call',
+      params: {
+        name: 'whoami',
+        arguments: {},
+        _meta: { traceparent: TRACEPARENT, baggage: 'tenant=acme' }
+      }
+    });
+
+    const requestSpan = exporter.getFinishedSpans().find(s => s.name === 'mcp.tools/call');
+    expect(requestSpan!.spanContext().traceId).toBe(TRACE_ID);
+    expect(requestSpan!.parentSpanContext?.spanId).toBe(PARENT_SPAN_ID);
+    expect(tenant).toBe('acme');
+  });
+
+  it('should link client and server spans into one trace', async () => {
+    const mcpServer = trackmcp(new McpServer({ name: 'propagation-server', version: '1.0.0' }));
+    mcpServer.registerTool('echo', {}, async () => ({ content: [{ type: 'text', text: 'echo' }] }));
+
+    const client = trackmcpClient(new Client({ name: 'propagation-client', version: '1.0.0' }));
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await mcpServer.connect(serverTransport);
+    await client.connect(clientTransport);
+    exporter.reset();
+
+    await client.callTool({ name: 'echo', arguments: {} });
+
+    const spans = exporter.getFinishedSpans();
+    const clientSpan = spans.find(s => s.name === 'mcp.tools/call' && s.kind === SpanKind.CLIENT);
+    const serverSpan = spans.find(s => s.name === 'mcp.tools/call' && s.kind === SpanKind.SERVER);
+    const toolSpan = spans.find(s => s.name === 'mcp.tool.echo');
+
+    expect(serverSpan!.spanContext().traceId).toBe(clientSpan!.spanContext().traceId);
+    expect(serverSpan!.parentSpanContext?.spanId).toBe(clientSpan!.spanContext().spanId);
+    expect(toolSpan!.parentSpanContext?.spanId).toBe(serverSpan!.spanContext().spanId);
+  });
+
+  it('should send server-to-client requests as children of their spans', async () => {
+    const mcpServer = trackmcp(new McpServer({ name: 'propagation-server', version: '1.0.0' }));
+    const client = new Client(
+      { name: 'propagation-client', version: '1.0.0' },
+      { capabilities: { sampling: {}, elicitation: {}, roots: {} } }
+    );
+
+    const received = new Map<string, unknown>();
+    client.setRequestHandler(CreateMessageRequestSchema, async request => {
+      received.set('sampling/createMessage', request.params._meta?.traceparent);
+      return { model: 'test-model', role: 'assistant', content: { type: 'text', text: 'sampled' } };
+    });
+    client.setRequestHandler(ElicitRequestSchema, async request => {
+      received.set('elicitation/create', request.params._meta?.traceparent);
+      return { action: 'decline' };
+    });
+    client.setRequestHandler(ListRootsRequestSchema, async request => {
+      received.set('roots/list', request.params?._meta?.traceparent);
+      return { roots: [] };
+    });
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await mcpServer.connect(serverTransport);
+    await client.connect(clientTransport);
+    exporter.reset();
+
+    await mcpServer.server.createMessage({
+      messages: [{ role: 'user', content: { type: 'text', text: 'hi' } }],
+      maxTokens: 64
+    });
+    await mcpServer.server.elicitInput({
+      message: 'Pick a name',
+      requestedSchema: { type: 'object', properties: { name: { type: 'string' } } }
+    });
+    await mcpServer.server.listRoots();
+    await client.close();
+
+    for (const method of ['sampling/createMessage', 'elicitation/create', 'roots/list']) {
+      const span = exporter.getFinishedSpans().find(s => s.name === `mcp.${method}`);
+      const { traceId, spanId } = span!.spanContext();
+      expect(received.get(method)).toBe(`00-${traceId}-${spanId}-01`);
+    }
+  });
+});
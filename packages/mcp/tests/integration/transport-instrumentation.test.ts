@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  NodeTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor
+} from '@opentelemetry/sdk-trace-node';
+import {
+  trackmcp,
+  getTracker,
+  instrumentTransport,
+  getTransportType,
+  MCPTracker
+} from '../../src/index.js';
+import { MCPTransportMetrics } from '../../src/types/index.js';
+
+describe('Transport Instrumentation', () => {
+  const exporter = new InMemorySpanExporter();
+
+  beforeAll(() => {
+    const provider = new NodeTracerProvider({
+      spanProcessors: [new SimpleSpanProcessor(exporter)]
+    });
+    provider.register();
+  });
+
+  beforeEach(() => {
+    exporter.reset();
+  });
+
+  it('should count messages, bytes and connection lifetime of a connected server', async () => {
+    const mcpServer = trackmcp(new McpServer({ name: 'transport-server', version: '1.0.0' }));
+    mcpServer.registerTool('echo', {}, async () => ({ content: [{ type: 'text', text: 'echo' }] }));
+
+    const client = new Client({ name: 'transport-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await mcpServer.connect(serverTransport);
+    await client.connect(clientTransport);
+    await client.callTool({ name: 'echo', arguments: {} });
+
+    const tracker = getTracker(mcpServer)!;
+    const open = tracker.getCurrentMetrics().transport as MCPTransportMetrics;
+    expect(open.activeConnections).toBe(1);
+    // initialize, notifications/initialized and tools/call
+    expect(open.messagesReceived).toBe(3);
+    // initialize and tools/call responses
+    expect(open.messagesSent).toBe(2);
+    expect(open.bytesReceived).toBeGreaterThan(0);
+    expect(open.bytesSent).toBeGreaterThan(0);
+
+    await client.close();
+
+    const closed = tracker.getCurrentMetrics().transport as MCPTransportMetrics;
+    expect(closed.activeConnections).toBe(0);
+    expect(closed.totalConnections).toBe(1);
+    expect(closed.averageConnectionDuration).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should add transport type, size and queue time to request spans', async () => {
+    const mcpServer = trackmcp(new McpServer({ name: 'transport-server', version: '1.0.0' }));
+    mcpServer.registerTool('echo', {}, async () => ({ content: [{ type: 'text', text: 'echo' }] }));
+
+    const client = new Client({ name: 'transport-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await mcpServer.connect(serverTransport);
+    await client.connect(clientTransport);
+    await client.callTool({ name: 'echo', arguments: {} });
+    await client.close();
+
+    const span = exporter.getFinishedSpans().find(s => s.name === 'mcp.tools/call')!;
+    expect(span.attributes['mcp.transport.type']).toBe('in-memory');
+    expect(span.attributes['mcp.transport.request_bytes']).toBeGreaterThan(0);
+    expect(span.attributes['mcp.transport.queue_time_ms']).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should count parse errors separately from other transport errors', () => {
+    const tracker = new MCPTracker();
+    const [transport] = InMemoryTransport.createLinkedPair();
+    instrumentTransport(transport, tracker);
+
+    const zodError = new Error('invalid message');
+    zodError.name = 'ZodError';
+    transport.onerror = () => {};
+    transport.onerror(new SyntaxError('Unexpected token'));
+    transport.onerror(zodError);
+    transport.onerror(new Error('socket hang up'));
+
+    const metrics = tracker.getTransportStats().getMetrics();
+    expect(metrics.parseErrors).toBe(2);
+    expect(metrics.errors).toBe(1);
+  });
+
+  it('should count a message once when handlers are chained', () => {
+    const tracker = new MCPTracker();
+    const [transport] = InMemoryTransport.createLinkedPair();
+    instrumentTransport(transport, tracker);
+
+    const received: string[] = [];
+    transport.onmessage = () => received.push('first');
+    const previous = transport.onmessage;
+    transport.onmessage = (message, extra) => {
+      previous?.(message, extra);
+      received.push('second');
+    };
+    transport.onmessage({ jsonrpc: '2.0', method: 'ping', id: 1 });
+
+    expect(received).toEqual(['first', 'second']);
+    expect(tracker.getTransportStats().getMetrics().messagesReceived).toBe(1);
+    expect(getTransportType(transport)).toBe('in-memory');
+  });
+});
@@ -5,6 +5,9 @@ export default defineConfig({
     globals: true,
     environment: 'node',
     include: ['tests/**/*.test.ts'],
+    benchmark: {
+      include: ['tests/**/*.bench.ts']
+    },
     coverage: {
       provider: 'v8',
       reporter: ['text', 'json', 'html'],